@@ -1,5 +1,9 @@
 module.exports = {
+	credentials: {
+		BazosProxyApi: require('./dist/credentials/BazosProxyApi.credentials.js'),
+	},
 	nodes: {
 		BazosScraper: require('./dist/nodes/BazosScraper/BazosScraper.node.js'),
+		BazosScraperTrigger: require('./dist/nodes/BazosScraper/BazosScraperTrigger.node.js'),
 	},
 };
@@ -1,4 +1,7 @@
 import {
+	IBinaryData,
+	IBinaryKeyData,
+	IDataObject,
 	IExecuteFunctions,
 	INodeExecutionData,
 	INodeType,
@@ -7,7 +10,80 @@ import {
 } from 'n8n-workflow';
 
 import * as cheerio from 'cheerio';
-import axios from 'axios';
+import { createHash } from 'crypto';
+import { getCategories, getSubcategories } from './categories';
+import { findEmail, toE164 } from './contact';
+import { additionalParametersDescription, buildAdditionalParameters, buildSectionParameters, sectionFiltersDescription } from './sections';
+import { BAZOS_HOST_PATTERN, countryOptions, getCountry, SELLER_PAGES } from './countries';
+import {
+	BazosListingFilters,
+	buildListingFilters,
+	emptyFilterCounts,
+	getSellerFilterReason,
+	getTextFilterReason,
+	hasSellerFilter,
+	listingFiltersDescription,
+} from './filters';
+import {
+	BazosHistoryEntry,
+	getStaticDataHistory,
+	loadHistoryFile,
+	priceHistoryDescription,
+	returnedAllResults,
+	saveHistoryFile,
+	trackPriceHistory,
+} from './history';
+import { BazosParseFailure, toRawText } from './debug';
+import { duplicatesDescription, keepOnePerGroup, markDuplicates } from './duplicates';
+import { BazosListing, fieldsToReturnDescription, pickListingFields } from './listing';
+import {
+	BazosCursor,
+	cursorPaginationDescription,
+	findPriceBands,
+	getQueryHash,
+	MAX_PAGINATED_RESULTS,
+	parseCursor,
+} from './cursor';
+import { assertTimeZone, DEFAULT_TIME_ZONE, isPublishedWithin, parseBazosDate } from './dates';
+import { addDistances, getGeoFields, sortByDistance } from './geo';
+import { buildExchangeRates, containsWord, convertListingPrices, convertPriceBound, DEFAULT_EXCHANGE_RATES, parsePrice, stripDiacritics } from './price';
+import { BazosIssue, BazosScraperError, toIssue, toNodeError } from './errors';
+import { BazosHttpClient, buildRequestOptions, requestOptionsDescription, runWithConcurrency } from './transport';
+
+// Domains searched by the "All (SK + CZ)" country option
+const ALL_COUNTRIES = ['sk', 'cz'];
+
+export interface BazosSearchParams {
+	search: string;
+	location: string;
+	distance: number;
+	minPrice: number | null;
+	maxPrice: number | null;
+	order: string | number;
+	resultsLimit: number;
+	publishedDays: number | null;
+	withFullDescriptions: boolean;
+	withImages?: boolean;
+	// Fetch the detail page of every listing for the seller's name, phone and e-mail
+	withContact?: boolean;
+	country: string;
+	category?: string;
+	subcategory?: string;
+	client?: BazosHttpClient;
+	// Return what was collected when a later page fails, instead of throwing
+	partialResults?: boolean;
+	filters?: BazosListingFilters;
+	// Section filters and additional query parameters, by query parameter name
+	extraParameters?: Record<string, string>;
+	// IANA time zone the listing dates are interpreted in, Europe/Bratislava by default
+	timeZone?: string;
+	// Cursor pagination: start at this page offset, end on a whole page and go past the 1000 result cap
+	paginate?: boolean;
+	startOffset?: number;
+}
+
+// The part of a search that differs between the queries of a batch
+export type BazosSearchQuery = Pick<BazosSearchParams, 'search' | 'location' | 'distance' | 'minPrice' | 'maxPrice' | 'country' | 'category' | 'subcategory'>;
 
 export class BazosScraper implements INodeType {
 	description: INodeTypeDescription = {
@@ -16,14 +92,117 @@ export class BazosScraper implements INodeType {
 		icon: 'file:bazos.svg',
 		group: ['transform'],
 		version: 1,
-		subtitle: '={{$parameter["search"]}}',
+		subtitle: '={{$parameter["resource"] === "seller" ? $parameter["seller"] : $parameter["operation"] === "get" ? $parameter["listingId"] : $parameter["operation"] === "searchMany" ? "Multiple queries" : $parameter["search"]}}',
 		description: 'Scrape listings from Bazos.sk',
 		defaults: {
 			name: 'Bazos Scraper',
 		},
 		inputs: ['main'],
 		outputs: ['main'],
+		credentials: [
+			{
+				name: 'bazosProxyApi',
+				required: false,
+			},
+		],
 		properties: [
+			{
+				displayName: 'Resource',
+				name: 'resource',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Listing',
+						value: 'listing',
+					},
+					{
+						name: 'Seller',
+						value: 'seller',
+					},
+				],
+				default: 'listing',
+			},
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['listing'],
+					},
+				},
+				options: [
+					{
+						name: 'Search',
+						value: 'search',
+						description: 'Search listings',
+						action: 'Search listings',
+					},
+					{
+						name: 'Search Multiple',
+						value: 'searchMany',
+						description: 'Run several searches and merge their listings without duplicates',
+						action: 'Search listings for multiple queries',
+					},
+					{
+						name: 'Get',
+						value: 'get',
+						description: 'Get all details of a single listing',
+						action: 'Get a listing',
+					},
+				],
+				default: 'search',
+			},
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['seller'],
+					},
+				},
+				options: [
+					{
+						name: 'Get Listings',
+						value: 'getListings',
+						description: 'Get all active listings of a seller',
+						action: 'Get all listings of a seller',
+					},
+				],
+				default: 'getListings',
+			},
+			{
+				displayName: 'Seller Profile or Listing URL',
+				name: 'seller',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g., https://www.bazos.sk/hodnotenie.php?idmail=123456 or 123456789',
+				description: 'Seller profile URL, or the URL or numeric ID of any listing of the seller',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['getListings'],
+					},
+				},
+			},
+			{
+				displayName: 'Listing URL or ID',
+				name: 'listingId',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g., https://pc.bazos.sk/inzerat/123456789/notebook.php or 123456789',
+				description: 'URL of the listing detail page or its numeric ID',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['get'],
+					},
+				},
+			},
 			{
 				displayName: 'Search Term',
 				name: 'search',
@@ -32,6 +211,85 @@ export class BazosScraper implements INodeType {
 				placeholder: 'e.g., darujem, notebook, auto',
 				description: 'Search term to look for in listings',
 				required: true,
+				displayOptions: {
+					show: {
+						operation: ['search'],
+					},
+				},
+			},
+			{
+				displayName: 'Queries',
+				name: 'queries',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				default: {},
+				placeholder: 'Add Query',
+				description: 'Searches to run. Results Limit applies to each query; listings found by several queries are returned once, with all of them in matchedQueries.',
+				displayOptions: {
+					show: {
+						operation: ['searchMany'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Query',
+						name: 'query',
+						values: [
+							{
+								displayName: 'Search Term',
+								name: 'search',
+								type: 'string',
+								default: '',
+								placeholder: 'e.g., thinkpad',
+							},
+							{
+								displayName: 'Post Code',
+								name: 'location',
+								type: 'string',
+								default: '',
+								placeholder: 'e.g., 81101, 04001',
+								description: 'Post code to search in (leave empty for all locations)',
+							},
+							{
+								displayName: 'Distance (km)',
+								name: 'distance',
+								type: 'number',
+								default: 25,
+							},
+							{
+								displayName: 'Min Price',
+								name: 'minPrice',
+								type: 'number',
+								default: '',
+								description: 'Leave empty for no minimum',
+							},
+							{
+								displayName: 'Max Price',
+								name: 'maxPrice',
+								type: 'number',
+								default: '',
+								description: 'Leave empty for no maximum',
+							},
+							{
+								displayName: 'Country',
+								name: 'country',
+								type: 'options',
+								options: countryOptions,
+								default: 'sk',
+							},
+							{
+								displayName: 'Category',
+								name: 'category',
+								type: 'string',
+								default: '',
+								placeholder: 'e.g., pc',
+								description: 'Section host prefix to search in (leave empty for all categories)',
+							},
+						],
+					},
+				],
 			},
 			{
 				displayName: 'Post Code',
@@ -39,7 +297,26 @@ export class BazosScraper implements INodeType {
 				type: 'string',
 				default: '',
 				placeholder: 'e.g., 81101, 04001',
-				description: 'Post code to search in (leave empty for all locations)',
+				description: 'Post code to search in (leave empty for all locations). With All (SK + CZ) this is the Slovak post code, used on bazos.sk only.',
+				displayOptions: {
+					show: {
+						operation: ['search'],
+					},
+				},
+			},
+			{
+				displayName: 'Post Code (Bazos.cz)',
+				name: 'locationCz',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g., 11000, 73801',
+				description: 'Czech post code used on bazos.cz. Post codes mean different places on each domain, so a domain without its own post code is searched in all locations.',
+				displayOptions: {
+					show: {
+						operation: ['search'],
+						country: ['all'],
+					},
+				},
 			},
 			{
 				displayName: 'Distance (km)',
@@ -47,6 +324,11 @@ export class BazosScraper implements INodeType {
 				type: 'number',
 				default: 25,
 				description: 'Search radius in kilometers from the post code',
+				displayOptions: {
+					show: {
+						operation: ['search'],
+					},
+				},
 			},
 			{
 				displayName: 'Min Price',
@@ -54,7 +336,12 @@ export class BazosScraper implements INodeType {
 				type: 'number',
 				default: '',
 				placeholder: 'e.g., 100',
-				description: 'Minimum price filter (leave empty for no minimum)',
+				description: 'Minimum price filter in the currency of the domain, or in Convert Prices To (EUR by default) for All (SK + CZ). Leave empty for no minimum.',
+				displayOptions: {
+					show: {
+						operation: ['search'],
+					},
+				},
 			},
 			{
 				displayName: 'Max Price',
@@ -62,7 +349,12 @@ export class BazosScraper implements INodeType {
 				type: 'number',
 				default: '',
 				placeholder: 'e.g., 1000',
-				description: 'Maximum price filter (leave empty for no maximum)',
+				description: 'Maximum price filter in the currency of the domain, or in Convert Prices To (EUR by default) for All (SK + CZ). Leave empty for no maximum.',
+				displayOptions: {
+					show: {
+						operation: ['search'],
+					},
+				},
 			},
 			{
 				displayName: 'Order',
@@ -84,14 +376,38 @@ export class BazosScraper implements INodeType {
 				],
 				default: '',
 				description: 'Sort order for results',
+				displayOptions: {
+					show: {
+						operation: ['search', 'searchMany'],
+					},
+				},
+			},
+			{
+				displayName: 'Sort by Distance',
+				name: 'sortByDistance',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to return the nearest listings first, measured from the post code of the search. Listings without a known post code come last.',
+				displayOptions: {
+					show: {
+						operation: ['search', 'searchMany'],
+					},
+				},
 			},
 			{
 				displayName: 'Results Limit',
 				name: 'resultsLimit',
 				type: 'number',
 				default: 100,
-				description: 'Maximum number of results to return (max 1000)',
+				description: 'Maximum number of results to return (max 1000). With cursor pagination the number of results per run, rounded up to whole pages of 20.',
+				displayOptions: {
+					show: {
+						operation: ['search', 'searchMany', 'getListings'],
+					},
+				},
 			},
+			...cursorPaginationDescription,
+			...duplicatesDescription,
 			{
 				displayName: 'Published in Last (days)',
 				name: 'publishedDays',
@@ -99,6 +415,11 @@ export class BazosScraper implements INodeType {
 				default: '',
 				placeholder: 'e.g., 7',
 				description: 'Only show listings published in the last N days (leave empty for no time filter)',
+				displayOptions: {
+					show: {
+						operation: ['search', 'searchMany'],
+					},
+				},
 			},
 			{
 				displayName: 'Fetch Full Descriptions',
@@ -106,44 +427,394 @@ export class BazosScraper implements INodeType {
 				type: 'boolean',
 				default: false,
 				description: 'When enabled, fetches full descriptions, names, and phone numbers from detail pages for listings with truncated descriptions',
+				displayOptions: {
+					show: {
+						operation: ['search', 'searchMany', 'getListings'],
+					},
+				},
 			},
 			{
-				displayName: 'Country',
-				name: 'country',
+				displayName: 'Fetch All Images',
+				name: 'withImages',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to fetch the detail page of every listing to collect all gallery image URLs (otherwise only the cover image is known)',
+				displayOptions: {
+					show: {
+						operation: ['search', 'searchMany'],
+					},
+				},
+			},
+			{
+				displayName: 'Fetch Seller Contact',
+				name: 'withContact',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to fetch the detail page of every listing for the seller\'s name, phone number (in +421/+420 format) and e-mail, if the page shows one',
+				displayOptions: {
+					show: {
+						operation: ['search', 'searchMany'],
+					},
+				},
+			},
+			{
+				displayName: 'Output Mode',
+				name: 'outputMode',
 				type: 'options',
 				options: [
 					{
-						name: 'Slovakia (bazos.sk)',
-						value: 'sk',
+						name: 'Single Item with Listings Array',
+						value: 'single',
+						description: 'One item per search with all listings in a listings array',
+					},
+					{
+						name: 'One Item per Listing',
+						value: 'perListing',
+						description: 'One item per listing, with the search metadata under _search',
+					},
+				],
+				default: 'single',
+				description: 'How to return the found listings',
+				displayOptions: {
+					show: {
+						operation: ['search', 'searchMany'],
+					},
+				},
+			},
+			fieldsToReturnDescription,
+			{
+				displayName: 'Return Partial Results',
+				name: 'partialResults',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to return the listings collected so far when a later page fails, with the failure in the errors array, instead of failing the whole item',
+				displayOptions: {
+					show: {
+						operation: ['search', 'searchMany'],
+					},
+				},
+			},
+			{
+				displayName: 'Download Images',
+				name: 'downloadImages',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to download the listing images as binary properties (image_0, image_1, …)',
+				displayOptions: {
+					show: {
+						operation: ['search', 'searchMany', 'get'],
+					},
+				},
+			},
+			{
+				displayName: 'Max Images per Listing',
+				name: 'maxImages',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 5,
+				description: 'Maximum number of images to download for each listing',
+				displayOptions: {
+					show: {
+						operation: ['search', 'searchMany', 'get'],
+						downloadImages: [true],
+					},
+				},
+			},
+			{
+				displayName: 'Max Image Size (MB)',
+				name: 'maxImageSize',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+					numberPrecision: 1,
+				},
+				default: 5,
+				description: 'Images larger than this are skipped; 0 means no size limit',
+				displayOptions: {
+					show: {
+						operation: ['search', 'searchMany', 'get'],
+						downloadImages: [true],
+					},
+				},
+			},
+			{
+				displayName: 'Convert Prices To',
+				name: 'targetCurrency',
+				type: 'options',
+				options: [
+					{
+						name: 'No Conversion',
+						value: '',
+					},
+					{
+						name: 'EUR',
+						value: 'EUR',
+					},
+					{
+						name: 'CZK',
+						value: 'CZK',
+					},
+				],
+				default: '',
+				description: 'Whether to add convertedPrice and convertedCurrency to every listing, using the exchange rates below',
+			},
+			{
+				displayName: 'Exchange Rates',
+				name: 'exchangeRates',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				default: {},
+				placeholder: 'Add Rate',
+				description: 'Value of one unit of the listing currency in the target currency, e.g. CZK = 0.04 when converting to EUR. Listings in a currency without a rate get convertedPrice null.',
+				displayOptions: {
+					hide: {
+						targetCurrency: [''],
+					},
+				},
+				options: [
+					{
+						displayName: 'Rate',
+						name: 'rate',
+						values: [
+							{
+								displayName: 'Currency',
+								name: 'currency',
+								type: 'string',
+								default: '',
+								placeholder: 'e.g., CZK',
+							},
+							{
+								displayName: 'Rate',
+								name: 'rate',
+								type: 'number',
+								typeOptions: {
+									numberPrecision: 6,
+								},
+								default: 0,
+							},
+						],
 					},
+				],
+			},
+			{
+				displayName: 'Country',
+				name: 'country',
+				type: 'options',
+				options: [
+					...countryOptions,
 					{
-						name: 'Czech Republic (bazos.cz)',
-						value: 'cz',
+						name: 'All (SK + CZ)',
+						value: 'all',
+						description: 'Run the search on both domains and merge the results (Search only)',
 					},
 				],
 				default: 'sk',
 				description: 'Select the Bazos domain to scrape',
+				displayOptions: {
+					hide: {
+						operation: ['searchMany'],
+					},
+				},
+			},
+			{
+				displayName: 'Category Name or ID',
+				name: 'category',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getCategories',
+					loadOptionsDependsOn: ['country'],
+				},
+				default: '',
+				description: 'Bazos section to search in (e.g. auto, reality, pc). Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				displayOptions: {
+					show: {
+						operation: ['search'],
+					},
+					hide: {
+						country: ['all'],
+					},
+				},
+			},
+			{
+				displayName: 'Subcategory Name or ID',
+				name: 'subcategory',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getSubcategories',
+					loadOptionsDependsOn: ['country', 'category'],
+				},
+				default: '',
+				displayOptions: {
+					show: {
+						operation: ['search'],
+					},
+					hide: {
+						category: [''],
+						country: ['all'],
+					},
+				},
+				description: 'Subcategory within the selected section, as used in its URL path (e.g. notebook for pc.bazos.sk/notebook/). Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			sectionFiltersDescription,
+			{
+				displayName: 'Time Zone',
+				name: 'timeZone',
+				type: 'string',
+				default: DEFAULT_TIME_ZONE,
+				placeholder: 'e.g., Europe/Prague',
+				description: 'IANA time zone used to date listings shown as "today", "yesterday" or "X hours ago"',
+			},
+			...priceHistoryDescription,
+			{
+				...listingFiltersDescription,
+				displayOptions: {
+					show: {
+						operation: ['search', 'searchMany'],
+					},
+				},
+			},
+			additionalParametersDescription,
+			requestOptionsDescription,
+			{
+				displayName: 'Debug',
+				name: 'debug',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to add a _debug object with every request (URL, HTTP status, timing), the total duration, and the texts that could not be parsed',
 			},
 		],
 	};
 
+	methods = {
+		loadOptions: {
+			getCategories,
+			getSubcategories,
+		},
+	};
+
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
 		const returnData: INodeExecutionData[] = [];
 
+		// The proxy credential is optional
+		let proxyUrl: string | undefined;
+		if (this.getNode().credentials?.bazosProxyApi) {
+			const credentials = await this.getCredentials('bazosProxyApi');
+			proxyUrl = credentials.proxyUrl as string;
+		}
+
 		for (let i = 0; i < items.length; i++) {
 			try {
-				const search = this.getNodeParameter('search', i) as string;
-				const location = this.getNodeParameter('location', i) as string;
-				const distance = this.getNodeParameter('distance', i) as number;
-				
-				// Handle price parameters - convert empty strings to null, but keep 0 as valid value
-				const minPriceRaw = this.getNodeParameter('minPrice', i);
-				const minPrice = minPriceRaw === '' || minPriceRaw === null || minPriceRaw === undefined ? null : Number(minPriceRaw);
-				
-				const maxPriceRaw = this.getNodeParameter('maxPrice', i);
-				const maxPrice = maxPriceRaw === '' || maxPriceRaw === null || maxPriceRaw === undefined ? null : Number(maxPriceRaw);
-				
+				const operation = this.getNodeParameter('operation', i, 'search') as string;
+				const debug = this.getNodeParameter('debug', i, false) as boolean;
+				const client = new BazosHttpClient({
+					...buildRequestOptions(this.getNodeParameter('requestOptions', i, {}) as IDataObject, proxyUrl),
+					logger: this.logger,
+					debug,
+				});
+				const startedAt = Date.now();
+				// Everything fetched for this item, with timings and what could not be parsed
+				const getDebugOutput = (): IDataObject => (debug ? { _debug: { ...client.debug, durationMs: Date.now() - startedAt } } : {});
+				const targetCurrency = this.getNodeParameter('targetCurrency', i, '') as string;
+				const exchangeRates = buildExchangeRates(this.getNodeParameter('exchangeRates', i, {}) as IDataObject);
+				const timeZone = (this.getNodeParameter('timeZone', i, DEFAULT_TIME_ZONE) as string) || DEFAULT_TIME_ZONE;
+				assertTimeZone(timeZone);
+
+				if (operation === 'getListings') {
+					const seller = this.getNodeParameter('seller', i) as string;
+					const country = this.getNodeParameter('country', i) as string;
+					const resultsLimit = this.getNodeParameter('resultsLimit', i) as number;
+					const withFullDescriptions = this.getNodeParameter('withFullDescriptions', i) as boolean;
+
+					BazosScraper.assertSingleCountry(country);
+
+					// Seller profiles are reached from any of their listings
+					let sellerUrl = BazosScraper.isSellerUrl(seller) ? seller.trim() : '';
+					if (!sellerUrl) {
+						if (!BazosScraper.getListingUrl(seller, country)) {
+							throw new NodeOperationError(this.getNode(), `Invalid seller profile or listing URL: "${seller}"`, { itemIndex: i });
+						}
+						const listing = await BazosScraper.scrapeListingDetail(seller, country, client, timeZone);
+						if (!listing.sellerUrl) {
+							throw new NodeOperationError(this.getNode(), 'Could not find the seller profile link on the listing page', { itemIndex: i });
+						}
+						sellerUrl = listing.sellerUrl;
+					}
+					const sellerId = BazosScraper.getSellerId(sellerUrl);
+
+					const { listings, warnings } = await BazosScraper.scrapeSellerListings({
+						sellerUrl,
+						resultsLimit,
+						withFullDescriptions,
+						country,
+						client,
+						timeZone,
+					});
+					for (const warning of warnings) {
+						this.logger.warn(`Bazos ${warning.stage} problem: ${warning.message}`, { url: warning.url, page: warning.page });
+					}
+					if (targetCurrency) {
+						convertListingPrices(listings, targetCurrency, exchangeRates);
+					}
+
+					const fieldSets = this.getNodeParameter('fieldsToReturn', i, []) as string[];
+					returnData.push({
+						json: {
+							sellerId,
+							sellerUrl,
+							country,
+							listings: listings.map((listing) => pickListingFields(listing, fieldSets)),
+							totalReturned: listings.length,
+							warnings,
+							requestStats: client.stats,
+							...getDebugOutput(),
+						},
+						pairedItem: { item: i },
+					});
+					continue;
+				}
+
+				if (operation === 'get') {
+					const listingId = this.getNodeParameter('listingId', i) as string;
+					const country = this.getNodeParameter('country', i) as string;
+					BazosScraper.assertSingleCountry(country);
+
+					if (!BazosScraper.getListingUrl(listingId, country)) {
+						throw new NodeOperationError(this.getNode(), `Invalid listing URL or ID: "${listingId}"`, { itemIndex: i });
+					}
+
+					const listing = await BazosScraper.scrapeListingDetail(listingId, country, client, timeZone);
+					if (targetCurrency) {
+						convertListingPrices([listing], targetCurrency, exchangeRates);
+					}
+
+					const binary: IBinaryKeyData = {};
+					if (this.getNodeParameter('downloadImages', i, false) as boolean) {
+						const maxImages = this.getNodeParameter('maxImages', i) as number;
+						const maxImageSize = this.getNodeParameter('maxImageSize', i) as number;
+						const images = await BazosScraper.downloadImages(this, listing.images, maxImages, maxImageSize, client);
+						images.forEach((image, index) => {
+							binary[`image_${index}`] = image;
+						});
+					}
+
+					returnData.push({
+						json: {
+							...listing,
+							country,
+							requestStats: client.stats,
+							...getDebugOutput(),
+						},
+						...(Object.keys(binary).length ? { binary } : {}),
+						pairedItem: { item: i },
+					});
+					continue;
+				}
+
 				const order = this.getNodeParameter('order', i) as number;
 				const resultsLimit = this.getNodeParameter('resultsLimit', i) as number;
 				
@@ -152,67 +823,310 @@ export class BazosScraper implements INodeType {
 				const publishedDays = publishedDaysRaw === '' || publishedDaysRaw === null || publishedDaysRaw === undefined ? null : Number(publishedDaysRaw);
 				
 				const withFullDescriptions = this.getNodeParameter('withFullDescriptions', i) as boolean;
-				const country = this.getNodeParameter('country', i) as string;
+				const withImages = this.getNodeParameter('withImages', i, false) as boolean;
+				const withContact = this.getNodeParameter('withContact', i, false) as boolean;
+				const downloadImages = this.getNodeParameter('downloadImages', i, false) as boolean;
+				const outputMode = this.getNodeParameter('outputMode', i, 'single') as string;
+				const pagination = operation === 'search' ? (this.getNodeParameter('pagination', i, 'limit') as string) : 'limit';
+
+				const partialResults = this.getNodeParameter('partialResults', i, false) as boolean;
+				const filters = buildListingFilters(this.getNodeParameter('filters', i, {}) as IDataObject);
+				const additionalParameters = buildAdditionalParameters(this.getNodeParameter('additionalParameters', i, {}) as IDataObject);
+
+				if (!(resultsLimit > 0)) {
+					throw new BazosScraperError('invalidParameters', 'Results limit must be at least 1');
+				}
 
-				if (!search) {
-					throw new NodeOperationError(this.getNode(), 'Search term is required');
+				// The single item output carries the listings, in per-listing mode searchMetadata goes under _search
+				let listings: BazosListing[];
+				let summary: IDataObject;
+				let searchMetadata: IDataObject;
+				// Identifies the search in the price history, to tell which listings disappeared from it
+				let searchKey: string;
+				let coversAllResults: boolean;
+
+				if (operation === 'searchMany') {
+					const queries = BazosScraper.getBatchQueries(this.getNodeParameter('queries', i, {}) as IDataObject);
+					const result = await BazosScraper.scrapeBazosBatch(queries, {
+						order,
+						resultsLimit,
+						publishedDays,
+						withFullDescriptions,
+						withImages,
+						withContact,
+						client,
+						partialResults,
+						filters,
+						extraParameters: additionalParameters,
+						timeZone,
+					});
+					listings = result.listings;
+					const complete = result.errors.length === 0;
+					searchKey = result.queries.map((query) => query.searchUrl).join('\n');
+					coversAllResults = complete && result.queries.every((query) => returnedAllResults(query.totalFound, query.totalReturned, publishedDays));
+
+					searchMetadata = {
+						queries: result.queries,
+						totalDuplicates: result.duplicates,
+						complete,
+						warnings: result.warnings,
+						errors: result.errors,
+						requestStats: client.stats,
+					};
+					summary = {
+						order,
+						resultsLimit,
+						publishedDays,
+						withFullDescriptions,
+						withImages,
+						withContact,
+						queries: result.queries,
+						listings,
+						totalReturned: listings.length,
+						totalDuplicates: result.duplicates,
+						complete,
+						warnings: result.warnings,
+						errors: result.errors,
+						requestStats: client.stats,
+					};
+				} else {
+					const search = this.getNodeParameter('search', i) as string;
+					const location = this.getNodeParameter('location', i) as string;
+					const distance = this.getNodeParameter('distance', i) as number;
+					
+					// Handle price parameters - convert empty strings to null, but keep 0 as valid value
+					const minPriceRaw = this.getNodeParameter('minPrice', i);
+					const minPrice = minPriceRaw === '' || minPriceRaw === null || minPriceRaw === undefined ? null : Number(minPriceRaw);
+					
+					const maxPriceRaw = this.getNodeParameter('maxPrice', i);
+					const maxPrice = maxPriceRaw === '' || maxPriceRaw === null || maxPriceRaw === undefined ? null : Number(maxPriceRaw);
+
+					const country = this.getNodeParameter('country', i) as string;
+					const category = this.getNodeParameter('category', i, '') as string;
+					const subcategory = category ? (this.getNodeParameter('subcategory', i, '') as string) : '';
+
+					BazosScraper.validateQuery({ search, minPrice, maxPrice });
+
+					const searchParams = {
+						search,
+						distance,
+						minPrice,
+						maxPrice,
+						order,
+						resultsLimit,
+						publishedDays,
+						withFullDescriptions,
+						withImages,
+						withContact,
+						client,
+						partialResults,
+						filters,
+						// Section filters only exist on the section site, so they apply to single-country searches
+						extraParameters: {
+							...(country === 'all' ? {} : buildSectionParameters(category, this.getNodeParameter('sectionFilters', i, {}) as IDataObject)),
+							...additionalParameters,
+						},
+						timeZone,
+					};
+					const locationCz = country === 'all' ? (this.getNodeParameter('locationCz', i, '') as string) : '';
+					if (pagination === 'cursor' && country === 'all') {
+						throw new BazosScraperError('invalidParameters', 'Cursor pagination needs a single country, the domains of All (SK + CZ) are paged separately');
+					}
+					const paginated = pagination === 'cursor'
+						? await BazosScraper.scrapeBazosPaginated(
+							{ ...searchParams, location, country, category, subcategory },
+							this.getNodeParameter('startCursor', i, ''),
+							this.getNodeParameter('splitPriceBands', i, false) as boolean,
+						)
+						: null;
+					// Merged results are always converted, so SK and CZ prices can be compared
+					const result = paginated ?? (country === 'all'
+						? await BazosScraper.scrapeBazosAllCountries(searchParams, { sk: location, cz: locationCz }, targetCurrency || 'EUR', exchangeRates)
+						: await BazosScraper.scrapeBazos({ ...searchParams, location, country, category, subcategory }));
+					listings = result.listings;
+					const totalFilteredOut = Object.values(result.filteredOut).reduce((sum, count) => sum + count, 0);
+					const complete = result.errors.length === 0;
+					const searchUrls = 'searchUrls' in result ? { searchUrls: result.searchUrls } : { searchUrl: result.searchUrl };
+					searchKey = 'searchUrls' in result ? Object.values(result.searchUrls).join('\n') : result.searchUrl;
+					// A chunk of a cursor search is not the whole result either
+					coversAllResults = complete && !paginated && returnedAllResults(result.totalResults, listings.length, publishedDays);
+					// Every chunk of a cursor search carries the cursor to continue from
+					const cursor = paginated
+						? {
+							queryHash: paginated.queryHash,
+							nextOffset: paginated.nextOffset,
+							nextCursor: paginated.nextCursor,
+							...(paginated.priceBands ? { priceBands: paginated.priceBands } : {}),
+						}
+						: {};
+
+					searchMetadata = {
+						searchTerm: search,
+						...searchUrls,
+						country,
+						category: category || null,
+						subcategory: subcategory || null,
+						totalFound: result.totalResults,
+						totalFilteredOut,
+						filteredOut: result.filteredOut,
+						complete,
+						...cursor,
+						warnings: result.warnings,
+						errors: result.errors,
+						requestStats: client.stats,
+					};
+					summary = {
+						searchTerm: search,
+						location,
+						...(country === 'all' ? { locationCz } : {}),
+						distance,
+						minPrice,
+						maxPrice,
+						order,
+						resultsLimit,
+						publishedDays,
+						withFullDescriptions,
+						withImages,
+						withContact,
+						country,
+						category: category || null,
+						subcategory: subcategory || null,
+						...searchUrls,
+						listings,
+						totalFound: result.totalResults,
+						totalReturned: listings.length,
+						totalFilteredOut,
+						filteredOut: result.filteredOut,
+						complete,
+						...cursor,
+						warnings: result.warnings,
+						errors: result.errors,
+						requestStats: client.stats,
+					};
+				}
+
+				// Tracked before Keep One per Group, so the reposts it drops do not count as disappeared
+				const historyMode = this.getNodeParameter('priceHistory', i, 'off') as string;
+				let disappeared: BazosHistoryEntry[] = [];
+				if (historyMode !== 'off') {
+					const filePath = historyMode === 'file' ? (this.getNodeParameter('historyFilePath', i) as string) : '';
+					const history = historyMode === 'file'
+						? await loadHistoryFile(filePath)
+						: getStaticDataHistory(this.getWorkflowStaticData('node'));
+					disappeared = trackPriceHistory(history, searchKey, listings, coversAllResults);
+					if (historyMode === 'file') {
+						await saveHistoryFile(filePath, history);
+					}
+				}
+				const emitDisappeared = historyMode !== 'off' && (this.getNodeParameter('emitDisappeared', i, false) as boolean);
+
+				// Reposts are grouped across all returned listings, also across the queries of a batch
+				const duplicates = this.getNodeParameter('duplicates', i, 'off') as string;
+				if (duplicates !== 'off') {
+					if (this.getNodeParameter('compareCoverImages', i, false) as boolean) {
+						(searchMetadata.warnings as BazosIssue[]).push(...await BazosScraper.hashCoverImages(listings, client));
+					}
+					markDuplicates(listings);
+					// Counted before Keep One per Group drops the reposts
+					const totalReposts = listings.filter((listing) => listing.duplicateOf !== null).length;
+					if (duplicates === 'keepOne') {
+						listings = keepOnePerGroup(listings);
+						summary.totalReturned = listings.length;
+					}
+					searchMetadata.totalReposts = totalReposts;
+					summary.totalReposts = totalReposts;
+				}
+
+				// Sorts the returned listings; which listings are returned still follows the Order option
+				if (this.getNodeParameter('sortByDistance', i, false) as boolean) {
+					sortByDistance(listings);
+				}
+
+				if (targetCurrency) {
+					convertListingPrices(listings, targetCurrency, exchangeRates);
+				}
+
+				// Downloaded images per listing, in the same order as the listings
+				const listingImages: IBinaryData[][] = [];
+				if (downloadImages) {
+					const maxImages = this.getNodeParameter('maxImages', i) as number;
+					const maxImageSize = this.getNodeParameter('maxImageSize', i) as number;
+					for (const listing of listings) {
+						listingImages.push(await BazosScraper.downloadImages(this, listing.images, maxImages, maxImageSize, client));
+					}
+				}
+
+				for (const warning of [...(searchMetadata.warnings as BazosIssue[]), ...(searchMetadata.errors as BazosIssue[])]) {
+					this.logger.warn(`Bazos ${warning.stage} problem: ${warning.message}`, { url: warning.url, page: warning.page });
+				}
+				// In per-listing mode the debug output is part of the search metadata every listing carries
+				Object.assign(searchMetadata, getDebugOutput());
+
+				// Picked last, so price history, duplicates and images still see every field
+				const fieldSets = this.getNodeParameter('fieldsToReturn', i, []) as string[];
+
+				if (outputMode === 'perListing') {
+					listings.forEach((listing, listingIndex) => {
+						const binary: IBinaryKeyData = {};
+						(listingImages[listingIndex] ?? []).forEach((image, index) => {
+							binary[`image_${index}`] = image;
+						});
+						returnData.push({
+							json: {
+								...pickListingFields(listing, fieldSets),
+								_search: searchMetadata,
+							},
+							...(Object.keys(binary).length ? { binary } : {}),
+							pairedItem: { item: i },
+						});
+					});
+					if (emitDisappeared) {
+						for (const entry of disappeared) {
+							returnData.push({
+								json: {
+									event: 'disappeared',
+									...entry,
+									_search: searchMetadata,
+								},
+								pairedItem: { item: i },
+							});
+						}
+					}
+					continue;
 				}
 
-				const { listings, totalResults } = await BazosScraper.scrapeBazos({
-					search,
-					location,
-					distance,
-					minPrice,
-					maxPrice,
-					order,
-					resultsLimit,
-					publishedDays,
-					withFullDescriptions,
-					country,
+				// With a single item for all listings, binary keys are prefixed with the listing index
+				const binary: IBinaryKeyData = {};
+				listingImages.forEach((images, listingIndex) => {
+					listings[listingIndex].binaryProperties = images.map((image, index) => {
+						const key = `image_${listingIndex}_${index}`;
+						binary[key] = image;
+						return key;
+					});
 				});
 
-				// Build the search URL for debugging - match Bazos format exactly
-				const domain = country === 'cz' ? 'bazos.cz' : 'bazos.sk';
-				const submitText = country === 'cz' ? 'Hledat' : 'Hľadať';
-				const urlParams = [
-					`hledat=${encodeURIComponent(search)}`,
-					`rubriky=www`,
-					`hlokalita=${location || ''}`,
-					`humkreis=${distance}`,
-					...(minPrice !== null ? [`cenaod=${minPrice}`] : []),
-					...(maxPrice !== null ? [`cenado=${maxPrice}`] : []),
-					`Submit=${encodeURIComponent(submitText)}`,
-					`order=${order || ''}`,
-					`kitx=ano`
-				];
-				const searchUrl = `https://www.${domain}/search.php?${urlParams.join('&')}`;
+				summary.listings = listings.map((listing) => pickListingFields(listing, fieldSets));
+				if (emitDisappeared) {
+					summary.disappeared = disappeared;
+				}
+				Object.assign(summary, getDebugOutput());
 
 				returnData.push({
-					json: {
-						searchTerm: search,
-						location,
-						distance,
-						minPrice,
-						maxPrice,
-						order,
-						resultsLimit,
-						publishedDays,
-						withFullDescriptions,
-						searchUrl,
-						listings,
-						totalFound: totalResults,
-						totalReturned: listings.length,
-					},
+					json: summary,
+					...(Object.keys(binary).length ? { binary } : {}),
 					pairedItem: { item: i },
 				});
 			} catch (error) {
 				if (this.continueOnFail()) {
 					returnData.push({
-						json: { error: (error as Error).message },
+						json: {
+							error: (error as Error).message,
+							...(error instanceof BazosScraperError ? { errorType: error.type } : {}),
+						},
 						pairedItem: { item: i },
 					});
 				} else {
-					throw error;
+					throw toNodeError(this.getNode(), error as Error, i);
 				}
 			}
 		}
@@ -220,130 +1134,471 @@ export class BazosScraper implements INodeType {
 		return [returnData];
 	}
 
-	private static async scrapeBazos(params: {
-		search: string;
-		location: string;
-		distance: number;
-		minPrice: number | null;
-		maxPrice: number | null;
-		order: string | number;
-		resultsLimit: number;
-		publishedDays: number | null;
-		withFullDescriptions: boolean;
-		country: string;
-	}) {
-		const domain = params.country === 'cz' ? 'bazos.cz' : 'bazos.sk';
-		const BASE_URL = `https://www.${domain}/search.php`;
-		const listings: any[] = [];
-		let totalResults = 0;
-		let originalTotalResults = 0;
-
-		// Build query parameters - match Bazos format exactly
-		const submitText = params.country === 'cz' ? 'Hledat' : 'Hľadať';
-		const urlParams = [
-			`hledat=${encodeURIComponent(params.search)}`,
-			`rubriky=www`,
-			`hlokalita=${params.location || ''}`,
-			`humkreis=${params.distance}`,
-			...(params.minPrice !== null ? [`cenaod=${params.minPrice}`] : []),
-			...(params.maxPrice !== null ? [`cenado=${params.maxPrice}`] : []),
-			`Submit=${encodeURIComponent(submitText)}`,
-			`order=${params.order || ''}`,
-			`kitx=ano`
-		];
-		const url = `${BASE_URL}?${urlParams.join('&')}`;
+	static async scrapeBazos(params: BazosSearchParams) {
+		const client = params.client ?? new BazosHttpClient();
+		const category = params.category || '';
+		const subcategory = category ? params.subcategory || '' : '';
+		const listings: BazosListing[] = [];
+		const warnings: BazosIssue[] = [];
+		const errors: BazosIssue[] = [];
+		const filteredOut = emptyFilterCounts();
+		const filters = params.filters;
+		const filterBySeller = filters ? hasSellerFilter(filters) : false;
+		const paginate = params.paginate ?? false;
+		const startOffset = paginate ? params.startOffset ?? 0 : 0;
 
-		try {
-			const response = await axios.get(url, {
-				headers: {
-					'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-				},
+		const url = BazosScraper.buildSearchUrl(params, startOffset);
+
+		// The first page is needed for the total count; without it there is nothing to return
+		const response = await client.get(url);
+		const $ = cheerio.load(response.data);
+		BazosScraper.assertSearchPage($, url);
+
+		const parsedTotalResults = BazosScraper.parseTotalResults($, params.country);
+		// Store the original total for reporting
+		const originalTotalResults = parsedTotalResults ?? 0;
+		
+		// Fallback: if we couldn't parse total results, use a reasonable default for pagination;
+		// a paginated run reads on until an empty page
+		const totalResults = parsedTotalResults ?? (paginate ? Infinity : Math.max(params.resultsLimit, 100)); // Use at least 100 for pagination
+
+		const actualLimit = Math.min(totalResults, params.resultsLimit);
+		// A paginated run takes whole pages, so the next run can continue at a page offset without skipping listings
+		const pageLimit = paginate ? Infinity : actualLimit;
+		let offset = startOffset;
+		// Page offset the next paginated run continues at, null when all pages were read
+		let nextOffset: number | null = null;
+
+		// Scrape pages until we have enough results
+		while (listings.length < actualLimit) {
+			const pageUrl = BazosScraper.buildSearchUrl(params, offset);
+			const page = offset / 20 + 1;
+
+			let page$ = $;
+			let listingElements: cheerio.Cheerio<any>;
+			let pageListings: BazosListing[];
+			try {
+				// The first page was already loaded for the total count
+				if (offset !== startOffset) {
+					page$ = cheerio.load((await client.get(pageUrl)).data);
+					BazosScraper.assertSearchPage(page$, pageUrl);
+				}
+				listingElements = page$('div.inzeraty.inzeratyflex');
+				pageListings = BazosScraper.parseListingElements(listingElements, params.publishedDays, params.country, category, page, pageUrl, warnings, params.timeZone, client.debug?.parseFailures);
+			} catch (error) {
+				// Keep what was collected so far and report where the run stopped
+				if (!params.partialResults) {
+					throw error;
+				}
+				errors.push(toIssue('page', error, { url: pageUrl, page }));
+				// The failed page is retried by the next paginated run
+				nextOffset = paginate ? offset : null;
+				break;
+			}
+
+			// If no more listings found, break
+			if (listingElements.length === 0) {
+				if (paginate && offset < originalTotalResults) {
+					warnings.push({
+						stage: 'page',
+						type: 'invalidParameters',
+						message: `Bazos returned no listings at offset ${offset} of ${originalTotalResults}; enable Split into Price Bands to get the rest`,
+						url: pageUrl,
+						page,
+					});
+				}
+				break;
+			}
+
+			let candidates = pageListings.filter((listing) => {
+				const reason = filters ? getTextFilterReason(listing, filters) : null;
+				if (reason) {
+					filteredOut[reason]++;
+				}
+				return !reason;
 			});
 
-			const $ = cheerio.load(response.data);
+			// Take only as many as are still missing, so seller checks do not fetch more detail pages than needed
+			while (candidates.length > 0 && listings.length < pageLimit) {
+				let batch = candidates.slice(0, pageLimit - listings.length);
+				candidates = candidates.slice(batch.length);
 
-			// Get total results count from the status bar
-			const resultsCountElement = $('div.inzeratynadpis').first();
-			if (resultsCountElement.length > 0) {
-				const text = resultsCountElement.text().trim();
-				// Look for pattern like "Zobrazených 1-20 inzerátov z 8 295"
-				const match = text.match(/z\s+([\d\s]+)$/);
-				if (match) {
-					// Remove spaces and convert to number
-					totalResults = parseInt(match[1].replace(/\s/g, ''), 10);
+				if (filters && filterBySeller) {
+					// Seller names and phone numbers are only on the detail pages
+					warnings.push(...await BazosScraper.fetchListingDetails(batch, params.withFullDescriptions, params.withImages ?? false, params.country, client, params.withContact, true, params.timeZone));
+					batch = batch.filter((listing) => {
+						const reason = getSellerFilterReason(listing, filters);
+						if (reason) {
+							filteredOut[reason]++;
+						}
+						return !reason;
+					});
 				}
+
+				for (const listing of batch) {
+					listing.category = category || null;
+					listing.subcategory = subcategory || null;
+					listings.push(listing);
+				}
+			}
+			// TOP listings are pinned to the top regardless of their date, so only regular listings tell whether
+			// the rest is too old. A page of TOP listings alone does not stop pagination.
+			const hasRegularListings = listingElements.toArray().some((element) => !BazosScraper.isTopListing(page$(element)));
+			const pageHasValidResults = pageListings.some((listing) => !listing.isTop) || !hasRegularListings;
+
+			// If we have time filtering and no valid results on this page, stop pagination
+			// This is especially important for newest-first ordering (order === '' or order === 0)
+			if (params.publishedDays !== null && params.publishedDays > 0 && !pageHasValidResults && (params.order === '' || params.order === 0)) {
+				break;
 			}
+
+			// Move to next page (20 items per page)
+			offset += 20;
 			
-			// Store the original total for reporting
-			originalTotalResults = totalResults;
+			// Safety check to prevent infinite loops
+			if (offset > totalResults) {
+				break;
+			}
 			
-			// Fallback: if we couldn't parse total results, use a reasonable default for pagination
-			if (totalResults === 0) {
-				totalResults = Math.max(params.resultsLimit, 100); // Use at least 100 for pagination
+			// Additional safety check - don't go beyond reasonable limits
+			if (!paginate && offset > MAX_PAGINATED_RESULTS) {
+				break;
 			}
 
-			const actualLimit = Math.min(totalResults, params.resultsLimit);
-			let offset = 0;
+			if (paginate && listings.length >= actualLimit) {
+				nextOffset = offset;
+			}
+		}
 
-			// Scrape pages until we have enough results
-			while (listings.length < actualLimit) {
-				const pageUrl = offset === 0 ? url : `${url}&crz=${offset}`;
-				
-				const pageResponse = await axios.get(pageUrl, {
-					headers: {
-						'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-					},
-				});
+		// Detail pages are fetched only after all listing pages are parsed, unless the seller filter needed them already
+		if (!filterBySeller) {
+			warnings.push(...await BazosScraper.fetchListingDetails(listings, params.withFullDescriptions, params.withImages ?? false, params.country, client, params.withContact, false, params.timeZone));
+		}
+		addDistances(listings, params.location, params.country);
 
-				const page$ = cheerio.load(pageResponse.data);
-				const listingElements = page$('div.inzeraty.inzeratyflex');
+		return { listings, totalResults: originalTotalResults, searchUrl: url, filteredOut, warnings, errors, nextOffset };
+	}
+
+	// Reads the total from the status bar, e.g. "Zobrazených 1-20 inzerátov z 8 295"; 0 when it is missing
+	// null when the heading could not be read, which is not the same as a search without results
+	static parseTotalResults($: cheerio.CheerioAPI, country: string = 'sk'): number | null {
+		const text = $('div.inzeratynadpis').first().text().trim();
+		const match = text.match(getCountry(country).totalResults);
+		return match ? parseInt(match[1].replace(/[\s.]/g, ''), 10) : null;
+	}
+
+	/**
+	 * Returns the next chunk of a search for cursor pagination: up to resultsLimit listings (rounded up
+	 * to whole pages) from where the start cursor stopped, and the cursor to continue from. With
+	 * splitPriceBands the search is split into price ranges of at most 1000 results, walked one after
+	 * another, since Bazos does not serve pages beyond that.
+	 */
+	static async scrapeBazosPaginated(params: BazosSearchParams, startCursor: unknown, splitPriceBands: boolean) {
+		const client = params.client ?? new BazosHttpClient();
+		const queryHash = getQueryHash(BazosScraper.buildSearchUrl(params));
+		const cursor = parseCursor(startCursor, queryHash);
+		const warnings: BazosIssue[] = [];
+		const errors: BazosIssue[] = [];
+		const filteredOut = emptyFilterCounts();
+		const listings: BazosListing[] = [];
 
-				// If no more listings found, break
-				if (listingElements.length === 0) {
-					break;
+		let priceBands = cursor?.priceBands;
+		if (!cursor && splitPriceBands) {
+			priceBands = await findPriceBands(params.minPrice, params.maxPrice, async (minPrice, maxPrice) => {
+				const url = BazosScraper.buildSearchUrl({ ...params, minPrice, maxPrice });
+				const $ = cheerio.load((await client.get(url)).data);
+				BazosScraper.assertSearchPage($, url);
+				const total = BazosScraper.parseTotalResults($, params.country);
+				// A page without listings has nothing to count; with listings the bands need the real total
+				if (total === null && $('div.inzeraty.inzeratyflex').length > 0) {
+					throw new BazosScraperError('markupChanged', `Could not read the number of results at ${url}, so the search cannot be split into price bands`, url);
 				}
+				return total ?? 0;
+			});
+			for (const band of priceBands.filter((band) => band.totalResults > MAX_PAGINATED_RESULTS)) {
+				warnings.push({
+					stage: 'page',
+					type: 'invalidParameters',
+					message: `The price band ${band.minPrice ?? 0}-${band.maxPrice ?? 'any'} cannot be split below ${band.totalResults} listings, only the first ${MAX_PAGINATED_RESULTS} of them can be returned`,
+				});
+			}
+		}
 
-				let pageHasValidResults = false;
+		let band = cursor?.band ?? 0;
+		let offset = cursor?.offset ?? 0;
+		let nextCursor: BazosCursor | null = null;
+		// The URL of the first page that was fetched, like a search without a cursor
+		let searchUrl: string | null = null;
+		let totalResults = 0;
+
+		while (listings.length < params.resultsLimit && (!priceBands || band < priceBands.length)) {
+			const range = priceBands ? { minPrice: priceBands[band].minPrice, maxPrice: priceBands[band].maxPrice } : {};
+			const result = await BazosScraper.scrapeBazos({
+				...params,
+				...range,
+				client,
+				paginate: true,
+				startOffset: offset,
+				resultsLimit: params.resultsLimit - listings.length,
+			});
+			listings.push(...result.listings);
+			warnings.push(...result.warnings);
+			errors.push(...result.errors);
+			for (const [reason, count] of Object.entries(result.filteredOut)) {
+				filteredOut[reason as keyof typeof filteredOut] += count;
+			}
+			searchUrl ??= result.searchUrl;
+			totalResults = priceBands ? priceBands.reduce((sum, priceBand) => sum + priceBand.totalResults, 0) : result.totalResults;
+
+			if (result.nextOffset !== null) {
+				nextCursor = { queryHash, offset: result.nextOffset, ...(priceBands ? { band, priceBands } : {}) };
+				break;
+			}
+			if (!priceBands || band === priceBands.length - 1) {
+				nextCursor = null;
+				break;
+			}
+			// The band is done, the next one starts from its first page
+			band++;
+			offset = 0;
+			nextCursor = { queryHash, offset, band, priceBands };
+		}
 
-				// Process all listings on this page
-				for (let i = 0; i < listingElements.length; i++) {
-					if (listings.length >= actualLimit) break;
+		return {
+			listings,
+			totalResults,
+			searchUrl: searchUrl ?? BazosScraper.buildSearchUrl(params),
+			filteredOut,
+			warnings,
+			errors,
+			queryHash,
+			nextOffset: nextCursor?.offset ?? null,
+			nextCursor,
+			...(priceBands ? { priceBands } : {}),
+		};
+	}
+
+	/**
+	 * Runs several searches with shared settings and merges their listings, deduplicated by id
+	 * (or link for listings without one). Each listing lists the search terms that found it in
+	 * matchedQueries; detail pages are fetched once per merged listing, not once per query.
+	 */
+	static async scrapeBazosBatch(queries: BazosSearchQuery[], params: Omit<BazosSearchParams, keyof BazosSearchQuery>) {
+		const client = params.client ?? new BazosHttpClient();
+		// Seller filters fetch the details while paginating, so they cannot be deferred
+		const deferDetails = !(params.filters && hasSellerFilter(params.filters));
+		const merged = new Map<string, BazosListing>();
+		const listingCountries = new Map<BazosListing, string>();
+		const results = [];
+		const warnings: BazosIssue[] = [];
+		const errors: BazosIssue[] = [];
+		let duplicates = 0;
+
+		for (const query of queries) {
+			const result = await BazosScraper.scrapeBazos({
+				...params,
+				...query,
+				client,
+				...(deferDetails ? { withFullDescriptions: false, withImages: false, withContact: false } : {}),
+			});
 
-					const element = listingElements.eq(i);
-					const listing = await BazosScraper.parseListing(element, params.publishedDays, params.withFullDescriptions, params.country);
-					if (listing) {
-						listings.push(listing);
-						pageHasValidResults = true;
+			for (const listing of result.listings) {
+				const key = listing.id ? String(listing.id) : listing.link;
+				const existing = merged.get(key);
+				if (existing) {
+					duplicates++;
+					// Every merged listing got matchedQueries when it was added
+					if (!existing.matchedQueries!.includes(query.search)) {
+						existing.matchedQueries!.push(query.search);
 					}
+					continue;
 				}
+				listing.matchedQueries = [query.search];
+				merged.set(key, listing);
+				listingCountries.set(listing, query.country);
+			}
 
-				// If we have time filtering and no valid results on this page, stop pagination
-				// This is especially important for newest-first ordering (order === '' or order === 0)
-				if (params.publishedDays !== null && params.publishedDays > 0 && !pageHasValidResults && (params.order === '' || params.order === 0)) {
-					break;
-				}
+			warnings.push(...result.warnings);
+			errors.push(...result.errors);
+			results.push({
+				searchTerm: query.search,
+				searchUrl: result.searchUrl,
+				country: query.country,
+				category: query.category || null,
+				totalFound: result.totalResults,
+				totalReturned: result.listings.length,
+				filteredOut: result.filteredOut,
+				complete: result.errors.length === 0,
+			});
+		}
 
-				// Move to next page (20 items per page)
-				offset += 20;
-				
-				// Safety check to prevent infinite loops
-				if (offset > totalResults) {
-					break;
-				}
-				
-				// Additional safety check - don't go beyond reasonable limits
-				if (offset > 1000) {
-					break;
-				}
+		const listings = [...merged.values()];
+		if (deferDetails) {
+			warnings.push(...await BazosScraper.fetchListingDetailsPerCountry(listings, (listing) => listingCountries.get(listing) ?? 'sk', params, client));
+		}
+
+		return { listings, queries: results, duplicates, warnings, errors };
+	}
+
+	/**
+	 * Runs the same search on bazos.sk and bazos.cz and merges the listings in the selected order.
+	 * Post codes mean different places on each domain, so every domain gets its own post code
+	 * (or none). Prices are converted to one currency first, so price orders compare like with like,
+	 * and Min Price and Max Price are read in that currency and converted into each domain's currency.
+	 */
+	static async scrapeBazosAllCountries(
+		params: Omit<BazosSearchParams, 'country' | 'location' | 'category' | 'subcategory'>,
+		locations: Record<string, string>,
+		targetCurrency: string,
+		rates: Record<string, number>,
+	) {
+		const client = params.client ?? new BazosHttpClient();
+		const deferDetails = !(params.filters && hasSellerFilter(params.filters));
+		const listings: BazosListing[] = [];
+		const searchUrls: Record<string, string> = {};
+		const filteredOut = emptyFilterCounts();
+		const warnings: BazosIssue[] = [];
+		const errors: BazosIssue[] = [];
+		const exchangeRates = { ...DEFAULT_EXCHANGE_RATES[targetCurrency], ...rates };
+		let totalResults = 0;
+
+		for (const country of ALL_COUNTRIES) {
+			const { currency } = getCountry(country);
+			// Each domain returns up to resultsLimit, so the merged top results are complete
+			const result = await BazosScraper.scrapeBazos({
+				...params,
+				country,
+				minPrice: convertPriceBound(params.minPrice, targetCurrency, currency, exchangeRates, Math.floor),
+				maxPrice: convertPriceBound(params.maxPrice, targetCurrency, currency, exchangeRates, Math.ceil),
+				location: locations[country] ?? '',
+				client,
+				...(deferDetails ? { withFullDescriptions: false, withImages: false, withContact: false } : {}),
+			});
+
+			for (const listing of result.listings) {
+				listing.country = country;
+				listing.domain = `bazos.${country}`;
+				listings.push(listing);
 			}
-		} catch (error) {
-			throw new Error(`Failed to scrape Bazos: ${(error as Error).message}`);
+			searchUrls[country] = result.searchUrl;
+			totalResults += result.totalResults;
+			for (const reason of Object.keys(filteredOut) as Array<keyof typeof filteredOut>) {
+				filteredOut[reason] += result.filteredOut[reason];
+			}
+			warnings.push(...result.warnings);
+			errors.push(...result.errors);
+		}
+
+		// Coordinates do not depend on the domain, so all listings are measured from one origin
+		const originCountry = locations.sk ? 'sk' : 'cz';
+		addDistances(listings, locations[originCountry] ?? '', originCountry);
+		convertListingPrices(listings, targetCurrency, exchangeRates);
+		BazosScraper.sortListings(listings, params.order);
+		const limited = listings.slice(0, params.resultsLimit);
+
+		if (deferDetails) {
+			warnings.push(...await BazosScraper.fetchListingDetailsPerCountry(limited, (listing) => listing.country ?? 'sk', params, client));
+		}
+
+		return { listings: limited, totalResults, searchUrls, filteredOut, warnings, errors };
+	}
+
+	/**
+	 * Sorts merged listings like Bazos does: newest first, or by convertedPrice with unknown prices last.
+	 * Ties are broken by the position on the listing's own domain, so listings from the same day
+	 * alternate between the domains instead of one domain filling the results limit.
+	 */
+	static sortListings(listings: BazosListing[], order: string | number) {
+		const positions = new Map<BazosListing, number>();
+		const counts = new Map<string | undefined, number>();
+		for (const listing of listings) {
+			const position = counts.get(listing.country) ?? 0;
+			positions.set(listing, position);
+			counts.set(listing.country, position + 1);
+		}
+		const byPosition = (a: BazosListing, b: BazosListing) => positions.get(a)! - positions.get(b)!;
+
+		if (Number(order) === 1 || Number(order) === 2) {
+			const direction = Number(order) === 1 ? 1 : -1;
+			listings.sort((a, b) => {
+				const first = a.convertedPrice ?? null;
+				const second = b.convertedPrice ?? null;
+				if (first === null || second === null) {
+					return (first === null ? 1 : 0) - (second === null ? 1 : 0) || byPosition(a, b);
+				}
+				return (first - second) * direction || byPosition(a, b);
+			});
+			return;
+		}
+		// ISO dates sort as strings
+		listings.sort((a, b) => String(b.added).localeCompare(String(a.added)) || byPosition(a, b));
+	}
+
+	// Detail pages are parsed with the labels of their domain, so merged listings are fetched per country
+	static async fetchListingDetailsPerCountry(
+		listings: BazosListing[],
+		getCountry: (listing: BazosListing) => string,
+		params: Pick<BazosSearchParams, 'withFullDescriptions' | 'withImages' | 'withContact' | 'timeZone'>,
+		client: BazosHttpClient,
+	): Promise<BazosIssue[]> {
+		const warnings: BazosIssue[] = [];
+		for (const country of new Set(listings.map(getCountry))) {
+			const countryListings = listings.filter((listing) => getCountry(listing) === country);
+			warnings.push(...await BazosScraper.fetchListingDetails(countryListings, params.withFullDescriptions, params.withImages ?? false, country, client, params.withContact, false, params.timeZone));
+		}
+		return warnings;
+	}
+
+	static assertSingleCountry(country: string) {
+		if (country === 'all') {
+			throw new BazosScraperError('invalidParameters', 'All (SK + CZ) is only supported by the Search operation');
+		}
+	}
+
+	static validateQuery(query: Pick<BazosSearchQuery, 'search' | 'minPrice' | 'maxPrice'>) {
+		if (!query.search) {
+			throw new BazosScraperError('invalidParameters', 'Search term is required');
+		}
+		if (query.minPrice !== null && query.maxPrice !== null && query.minPrice > query.maxPrice) {
+			throw new BazosScraperError('invalidParameters', `Min price (${query.minPrice}) is higher than max price (${query.maxPrice})`);
+		}
+	}
+
+	// Turns the "Queries" fixedCollection into validated search queries
+	static getBatchQueries(collection: IDataObject): BazosSearchQuery[] {
+		const entries = (collection.query ?? []) as IDataObject[];
+		if (entries.length === 0) {
+			throw new BazosScraperError('invalidParameters', 'Add at least one query');
 		}
 
-		return { listings, totalResults: originalTotalResults };
+		// Empty number fields arrive as empty strings, 0 is a valid price
+		const toPrice = (value: unknown) => (value === '' || value === null || value === undefined ? null : Number(value));
+
+		return entries.map((entry) => {
+			const query: BazosSearchQuery = {
+				search: String(entry.search ?? '').trim(),
+				location: String(entry.location ?? ''),
+				distance: entry.distance === undefined ? 25 : Number(entry.distance),
+				minPrice: toPrice(entry.minPrice),
+				maxPrice: toPrice(entry.maxPrice),
+				country: (entry.country as string) || 'sk',
+				category: String(entry.category ?? '').trim(),
+			};
+			BazosScraper.validateQuery(query);
+			return query;
+		});
 	}
 
-	private static async parseListing($element: cheerio.Cheerio<any>, publishedDays: number | null = null, withFullDescriptions: boolean = false, country: string = 'sk'): Promise<any> {
+	static parseListing(
+		$element: cheerio.Cheerio<any>,
+		publishedDays: number | null = null,
+		country: string = 'sk',
+		category: string = '',
+		timeZone: string = DEFAULT_TIME_ZONE,
+		parseFailures?: BazosParseFailure[],
+	): BazosListing | null {
+		const host = BazosScraper.getHost(country, category);
+
 		try {
 			// Extract ID from image src
 			const imgSrc = $element.find('a img').attr('src') || '';
@@ -360,11 +1615,15 @@ export class BazosScraper implements INodeType {
 
 			// Extract link
 			let link = $element.find('h2 a').attr('href') || '';
+
+			// Every listing has a title and a link; without them the markup has changed
+			if (!title || !link) {
+				throw new BazosScraperError('markupChanged', 'Listing has no title or link');
+			}
 			
 			// Ensure link uses correct domain
 			if (link && !link.startsWith('http')) {
-				const domain = country === 'cz' ? 'bazos.cz' : 'bazos.sk';
-				link = `https://www.${domain}${link}`;
+				link = `https://${host}${link}`;
 			}
 
 			// Extract image link and convert to full-size image
@@ -385,120 +1644,49 @@ export class BazosScraper implements INodeType {
 			
 			// Ensure image URL uses correct domain
 			if (imgLink && !imgLink.startsWith('http')) {
-				const domain = country === 'cz' ? 'bazos.cz' : 'bazos.sk';
-				imgLink = `https://www.${domain}${imgLink}`;
+				imgLink = `https://${host}${imgLink}`;
 			}
 
 			// Extract added date and parse it properly
 			const addedText = $element.find('span').text();
-			
-			// Parse and validate the date
-			let added = addedText.replace(/[^\d.]/g, '');
-			const parsedDate = BazosScraper.parseAndValidateDate(addedText, country);
-			if (parsedDate) {
-				// Use ISO date format: YYYY-MM-DD
-				added = parsedDate.toISOString().split('T')[0];
+			const parsedDate = parseBazosDate(addedText, country, timeZone);
+			if (!parsedDate) {
+				parseFailures?.push({ field: 'date', message: 'Could not parse the date', rawText: toRawText(addedText) });
 			}
-			
-			// Parse the date to check if it's within the time filter
-			let isWithinTimeFilter = true;
-			if (publishedDays !== null && publishedDays > 0) {
-				isWithinTimeFilter = BazosScraper.isWithinTimeFilter(addedText, publishedDays, country);
-				if (!isWithinTimeFilter) {
-					return null; // Skip this listing if it's too old
-				}
+			// Unparsed dates keep the raw digits, as before
+			const added = parsedDate ? parsedDate.addedDate : addedText.replace(/[^\d.]/g, '');
+			// Paid TOP listings show the date they were last topped, not when they were posted
+			const isTop = BazosScraper.isTopListing($element);
+
+			// Skip listings older than the time filter
+			if (publishedDays !== null && publishedDays > 0 && !isPublishedWithin(parsedDate, publishedDays, timeZone)) {
+				return null;
 			}
 
 			// Extract description
 			const description = $element.find('div.popis').text().trim();
 
-			// Initialize additional fields
-			let fullDescription = '';
-			let name = '';
-			let phone = '';
-
-			// If withFullDescriptions is enabled and description ends with "...", fetch detail page
-			if (withFullDescriptions && description.endsWith('...')) {
-				try {
-					// Extract the detail URL from the listing link
-					const detailLink = $element.find('a').first().attr('href');
-					if (detailLink) {
-						const domain = country === 'cz' ? 'bazos.cz' : 'bazos.sk';
-						const detailUrl = detailLink.startsWith('http') ? detailLink : `https://www.${domain}${detailLink}`;
-						
-						// Fetch the detail page
-						const detailResponse = await axios.get(detailUrl, {
-							headers: {
-								'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-							},
-						});
-
-						const detail$ = cheerio.load(detailResponse.data);
-
-						// Extract full description from class="popisdetail"
-						const fullDescElement = detail$('div.popisdetail');
-						if (fullDescElement.length > 0) {
-							fullDescription = fullDescElement.text().trim();
-						}
-
-						// Extract name from the table structure
-						// Look for "Meno:" label and get the adjacent <b> tag content
-						const nameRow = detail$('td').filter(function() {
-							return detail$(this).text().trim() === 'Meno:';
-						}).closest('tr');
-						
-						if (nameRow.length > 0) {
-							const nameElement = nameRow.find('b');
-							if (nameElement.length > 0) {
-								name = nameElement.text().trim();
-							}
-						}
-
-						// Extract phone from the table structure
-						// Look for "Telefón:" label and get the phone number from the <a> tag
-						const phoneRow = detail$('tr#overlaytel');
-						if (phoneRow.length > 0) {
-							const phoneLink = phoneRow.find('a.teldetail');
-							if (phoneLink.length > 0) {
-								phone = phoneLink.text().trim();
-							}
-						}
-					}
-				} catch (error) {
-					// If fetching detail page fails, continue with truncated description
-					console.warn('Failed to fetch detail page:', error);
-				}
-			}
+			// Only the cover image is shown on the listing page, the rest of the gallery needs the detail page
+			const images = imgLink ? [imgLink] : [];
 
 			// Extract price and currency
 			const priceElement = $element.find('div.inzeratycena');
 			const priceText = priceElement.text().trim();
-			
-			let price = 0;
-			let currency = '';
-			
-			if (priceText.toLowerCase().includes('zadarmo') || priceText.toLowerCase().includes('zdarma')) {
-				// Free item (both Slovak "zadarmo" and Czech "zdarma")
-				price = 0;
-				currency = '';
-			} else {
-				// Parse price with Euro sign or other currency
-				const priceMatch = priceText.match(/(\d+(?:[\s,]\d+)*)/);
-				if (priceMatch) {
-					// Remove spaces and commas from price number
-					const cleanPrice = priceMatch[1].replace(/[\s,]/g, '');
-					price = parseInt(cleanPrice, 10);
-				}
-				// Extract currency (everything that's not a number, space, or comma)
-				currency = priceText.replace(/[\d\s,.-]/g, '').trim();
+			const { price, currency, priceType } = parsePrice(priceText, country);
+			if (parseFailures && BazosScraper.isUnknownPriceText(priceText, priceType, country)) {
+				parseFailures.push({ field: 'price', message: 'Could not parse the price, returned as inText', rawText: toRawText(priceText) });
 			}
 
 			// Extract location and post code
 			const locationElement = $element.find('div.inzeratylok');
 			const locationText = locationElement.text();
-			const location = locationText.replace(/[\d.]/g, '').trim();
-			const postCodeMatch = locationText.match(/(\d{3}\s\d{2})/);
-			const postCode = postCodeMatch ? postCodeMatch[1] : '';
+			const postCodePattern = getCountry(country).postCode;
+			const location = locationText.replace(postCodePattern, '').replace(/[\d.]/g, '').trim();
+			const postCodeMatch = locationText.match(postCodePattern);
+			const postCode = postCodeMatch ? postCodeMatch[0] : '';
+			if (!postCodeMatch && /\d/.test(locationText)) {
+				parseFailures?.push({ field: 'postCode', message: 'Could not find the post code in the location', rawText: toRawText(locationText) });
+			}
 
 			// Extract views
 			const viewsElement = $element.find('div.inzeratyview');
@@ -512,123 +1700,423 @@ export class BazosScraper implements INodeType {
 				link,
 				imgLink,
 				imageOrder,
+				images,
 				added,
+				addedDate: parsedDate?.addedDate ?? null,
+				addedAt: parsedDate?.addedAt ?? null,
+				isTop,
+				// fullDescription and the seller fields are added from the detail page by fetchListingDetails
 				description,
-				fullDescription,
-				name,
-				phone,
 				price,
 				currency,
+				priceType,
 				location,
 				postCode,
+				...getGeoFields(postCode, country),
 				views,
 			};
 		} catch (error) {
-			console.error('Error parsing listing:', error);
-			return null;
+			if (error instanceof BazosScraperError) {
+				throw error;
+			}
+			throw new BazosScraperError('markupChanged', `Could not parse listing: ${(error as Error).message}`);
 		}
 	}
 
-	private static parseAndValidateDate(dateText: string, country: string = 'sk'): Date | null {
-		try {
-			const now = new Date();
-			
-			// Format: "27.10. 2025" or "27.10.2025" - validate year range
-			// Use word boundary to ensure we match exactly 4 digits for year
-			const fullDateMatch = dateText.match(/(\d{1,2})\.(\d{1,2})\.\s*(\d{4})\b/);
-			if (fullDateMatch) {
-				const [, day, month, year] = fullDateMatch;
-				const yearNum = parseInt(year);
-				const monthNum = parseInt(month);
-				const dayNum = parseInt(day);
-				
-				console.log(`Parsing date: "${dateText}" -> day:${dayNum}, month:${monthNum}, year:${yearNum}`);
-				
-				// Validate reasonable year range (2000-2030)
-				if (yearNum >= 2000 && yearNum <= 2030 && monthNum >= 1 && monthNum <= 12 && dayNum >= 1 && dayNum <= 31) {
-					const tempDate = new Date(yearNum, monthNum - 1, dayNum);
-					// Additional validation: check if the date is actually valid
-					if (tempDate.getFullYear() === yearNum && tempDate.getMonth() === monthNum - 1 && tempDate.getDate() === dayNum) {
-						console.log(`Valid date created: ${tempDate}`);
-						return tempDate;
-					} else {
-						console.log(`Invalid date: ${tempDate} (expected: ${dayNum}/${monthNum}/${yearNum})`);
-					}
-				} else {
-					console.log(`Date out of range: day:${dayNum}, month:${monthNum}, year:${yearNum}`);
+	// parsePrice falls back to inText for anything it does not know, so tell that apart from a real "V texte"
+	static isUnknownPriceText(priceText: string, priceType: string, country: string): boolean {
+		const inTextWords = getCountry(country).priceWords.inText ?? [];
+		const text = stripDiacritics(priceText.toLowerCase());
+		return priceText !== '' && priceType === 'inText' && !inTextWords.some((word) => containsWord(text, word));
+	}
+
+	// Paid TOP listings have a "TOP" badge next to the date
+	static isTopListing($element: cheerio.Cheerio<any>): boolean {
+		return $element.find('.ztop').length > 0 || /\bTOP\b/.test($element.find('span.velikost10').text());
+	}
+
+	/**
+	 * Parses all listing elements of a page. Listings that cannot be parsed are skipped and reported
+	 * in warnings; if none of them can be parsed, the markup has changed and the page fails as a whole.
+	 */
+	static parseListingElements(
+		listingElements: cheerio.Cheerio<any>,
+		publishedDays: number | null,
+		country: string,
+		category: string,
+		page: number,
+		pageUrl: string,
+		warnings: BazosIssue[],
+		timeZone: string = DEFAULT_TIME_ZONE,
+		parseFailures?: BazosParseFailure[],
+	): BazosListing[] {
+		const listings: BazosListing[] = [];
+		let failed = 0;
+
+		for (let i = 0; i < listingElements.length; i++) {
+			// Field failures are collected per listing, so they can be tagged with the page
+			const listingFailures: BazosParseFailure[] = [];
+			try {
+				const listing = BazosScraper.parseListing(listingElements.eq(i), publishedDays, country, category, timeZone, parseFailures && listingFailures);
+				if (listing) {
+					listings.push(listing);
 				}
+			} catch (error) {
+				failed++;
+				warnings.push(toIssue('listing', error, { url: pageUrl, page }));
+				listingFailures.push({ field: 'listing', message: (error as Error).message, rawText: toRawText(listingElements.eq(i).text()) });
 			}
-			// Format: "dnes" (today) - both SK and CZ
-			else if (dateText.includes('dnes')) {
-				return new Date(now.getFullYear(), now.getMonth(), now.getDate());
-			}
-			// Format: "včera" (yesterday) - both SK and CZ
-			else if (dateText.includes('včera')) {
-				const yesterday = new Date(now);
-				yesterday.setDate(yesterday.getDate() - 1);
-				return yesterday;
-			}
-			// Format: "pred X hodinami" (X hours ago) - both SK and CZ
-			else if (dateText.includes('pred') && dateText.includes('hodinami')) {
-				const hoursMatch = dateText.match(/pred\s+(\d+)\s+hodinami/);
-				if (hoursMatch) {
-					const hours = parseInt(hoursMatch[1]);
-					const hoursAgo = new Date(now);
-					hoursAgo.setHours(hoursAgo.getHours() - hours);
-					return hoursAgo;
+			parseFailures?.push(...listingFailures.map((failure) => ({ ...failure, url: pageUrl, page })));
+		}
+
+		if (failed > 0 && failed === listingElements.length) {
+			throw new BazosScraperError('markupChanged', `None of the ${failed} listings on ${pageUrl} could be parsed`, pageUrl);
+		}
+
+		return listings;
+	}
+
+	// Bazos answers a blocked client with a captcha page; a page without the results header has changed markup
+	static assertSearchPage($: cheerio.CheerioAPI, url: string) {
+		if ($('.g-recaptcha, iframe[src*="captcha"], form[action*="captcha"]').length > 0) {
+			throw new BazosScraperError('blocked', `Bazos asked for a captcha at ${url}`, url);
+		}
+		if ($('div.inzeratynadpis').length === 0 && $('div.inzeraty').length === 0) {
+			throw new BazosScraperError('markupChanged', `No listings or results header found at ${url}`, url);
+		}
+	}
+
+	/**
+	 * Fetches detail pages for listings with truncated descriptions (withFullDescriptions)
+	 * or for all listings (withImages, withContact, fetchAll) through a worker pool sized by the client's concurrency.
+	 * Listings are updated in place, so their order stays stable; a failed fetch is recorded
+	 * in the listing's detailError and returned as a warning instead of failing the run.
+	 */
+	static async fetchListingDetails(
+		listings: BazosListing[],
+		withFullDescriptions: boolean,
+		withImages: boolean,
+		country: string,
+		client: BazosHttpClient,
+		withContact: boolean = false,
+		fetchAll: boolean = false,
+		timeZone: string = DEFAULT_TIME_ZONE,
+	): Promise<BazosIssue[]> {
+		const warnings: BazosIssue[] = [];
+		// Seller contacts are only on the detail page, so they need it for every listing, not just truncated ones
+		const pending = listings.filter((listing) =>
+			listing.link && ((withFullDescriptions && String(listing.description).endsWith('...')) || withImages || withContact || fetchAll),
+		);
+
+		await runWithConcurrency(pending, client.maxConcurrent, async (listing) => {
+			try {
+				const response = await client.get(listing.link);
+				const detail = BazosScraper.parseListingDetail(cheerio.load(response.data), listing.link, country, timeZone, client.debug?.parseFailures);
+				listing.fullDescription = detail.description;
+				listing.hasPhone = detail.hasPhone;
+				// Seller fields the detail page does not show stay left out
+				for (const field of ['name', 'phone', 'email', 'sellerId', 'sellerUrl'] as const) {
+					if (detail[field] !== undefined) {
+						listing[field] = detail[field];
+					}
 				}
-			}
-			// Format: "pred X dňami" (X days ago) - Slovak
-			else if (dateText.includes('pred') && dateText.includes('dňami')) {
-				const daysMatch = dateText.match(/pred\s+(\d+)\s+dňami/);
-				if (daysMatch) {
-					const days = parseInt(daysMatch[1]);
-					const daysAgo = new Date(now);
-					daysAgo.setDate(daysAgo.getDate() - days);
-					return daysAgo;
+				if (withImages && detail.images.length > 0) {
+					listing.images = detail.images;
 				}
+			} catch (error) {
+				// Keep the listing with its truncated description
+				listing.detailError = (error as Error).message;
+				warnings.push(toIssue('detail', error, { url: listing.link, listingId: listing.id }));
 			}
-			// Format: "před X dny" (X days ago) - Czech
-			else if (dateText.includes('před') && dateText.includes('dny')) {
-				const daysMatch = dateText.match(/před\s+(\d+)\s+dny/);
-				if (daysMatch) {
-					const days = parseInt(daysMatch[1]);
-					const daysAgo = new Date(now);
-					daysAgo.setDate(daysAgo.getDate() - days);
-					return daysAgo;
-				}
+		});
+
+		return warnings;
+	}
+
+	// Hashes the cover images, so markDuplicates can match reposts with the same photo under a new ID
+	static async hashCoverImages(listings: BazosListing[], client: BazosHttpClient): Promise<BazosIssue[]> {
+		const warnings: BazosIssue[] = [];
+		await runWithConcurrency(listings.filter((listing) => listing.imgLink), client.maxConcurrent, async (listing) => {
+			try {
+				const response = await client.get(listing.imgLink, { responseType: 'arraybuffer' });
+				listing.coverImageHash = createHash('sha256').update(Buffer.from(response.data)).digest('hex');
+			} catch (error) {
+				warnings.push(toIssue('detail', error, { url: listing.imgLink, listingId: listing.id }));
 			}
-			
-			return null;
-		} catch (error) {
-			console.log(`Error parsing date: "${dateText}"`, error);
-			return null;
+		});
+		return warnings;
+	}
+
+	// Listing detail pages show the complete ad: full description, gallery and the seller table
+	static async scrapeListingDetail(listingUrlOrId: string, country: string, client: BazosHttpClient = new BazosHttpClient(), timeZone: string = DEFAULT_TIME_ZONE) {
+		const url = BazosScraper.getListingUrl(listingUrlOrId, country);
+		if (!url) {
+			throw new BazosScraperError('invalidParameters', `Invalid listing URL or ID: "${listingUrlOrId}"`);
+		}
+
+		const response = await client.get(url);
+
+		return BazosScraper.parseListingDetail(cheerio.load(response.data), url, country, timeZone, client.debug?.parseFailures);
+	}
+
+	// Accepts a full listing URL or just the numeric listing ID
+	static getListingUrl(listingUrlOrId: string, country: string): string | null {
+		const value = listingUrlOrId.trim();
+		if (/^\d+$/.test(value)) {
+			return `https://${BazosScraper.getHost(country)}/inzerat/${value}/`;
+		}
+		if (new RegExp(`^https?://${BAZOS_HOST_PATTERN}/inzerat/\\d+`).test(value)) {
+			return value;
 		}
+		return null;
 	}
 
-	private static isWithinTimeFilter(dateText: string, publishedDays: number, country: string = 'sk'): boolean {
-		try {
-			const now = new Date();
-			// Calculate cutoff date: N full days ago
-			// If today is 27.10.2025 and publishedDays=1, we want 26.10.2025 and 27.10.2025
-			const cutoffDate = new Date(now);
-			cutoffDate.setDate(cutoffDate.getDate() - publishedDays);
-			cutoffDate.setHours(0, 0, 0, 0); // Start of the cutoff day
-			
-			
-			// Use the same parsing logic
-			const listingDate = BazosScraper.parseAndValidateDate(dateText, country);
-			
-			if (!listingDate) {
-				// If we can't parse the date, include it to be safe
-				return true;
+	static parseListingDetail(detail$: cheerio.CheerioAPI, url: string, country: string = 'sk', timeZone: string = DEFAULT_TIME_ZONE, parseFailures?: BazosParseFailure[]) {
+		if (detail$('.g-recaptcha, iframe[src*="captcha"], form[action*="captcha"]').length > 0) {
+			throw new BazosScraperError('blocked', `Bazos asked for a captcha at ${url}`, url);
+		}
+		if (detail$('h1.nadpisdetail').length === 0) {
+			throw new BazosScraperError('markupChanged', `No listing title found at ${url}`, url);
+		}
+
+		const idMatch = url.match(/\/inzerat\/(\d+)/);
+		const id = idMatch ? parseInt(idMatch[1], 10) : 0;
+		const baseUrl = url.match(/^https?:\/\/[^/]+/)?.[0] ?? `https://${BazosScraper.getHost(country)}`;
+
+		const title = detail$('h1.nadpisdetail').first().text().trim();
+
+		// Extract full description from class="popisdetail"
+		const description = detail$('div.popisdetail').first().text().trim();
+
+		// The seller table uses text labels like "Meno:" in one cell and the value in the next one
+		const { detailLabels: labels, postCode: postCodePattern } = getCountry(country);
+		const findRow = (label: string) => detail$('td').filter(function() {
+			return detail$(this).text().trim() === label;
+		}).first().closest('tr');
+
+		// Name is in the adjacent <b> tag
+		const name = findRow(labels.name).find('b').first().text().trim();
+
+		// The seller's name links to their profile with all their listings, identified by idmail
+		const sellerHref = detail$(SELLER_PAGES.map((page) => `a[href*="${page}"]`).join(', ')).first().attr('href') || '';
+		const sellerUrl = sellerHref && !sellerHref.startsWith('http') ? `${baseUrl}${sellerHref.startsWith('/') ? '' : '/'}${sellerHref}` : sellerHref;
+		const sellerId = BazosScraper.getSellerId(sellerUrl);
+
+		// Phone number is in the <a> tag of the overlaytel row; the row is there even while the number is hidden
+		const phoneRow = detail$('tr#overlaytel');
+		const phoneText = phoneRow.find('a.teldetail').first().text().trim();
+		const phone = phoneText ? toE164(phoneText, country) ?? phoneText : '';
+		const hasPhone = phoneRow.length > 0 || phone !== '';
+		const email = findEmail(detail$('a[href^="mailto:"]').first().attr('href') || '', findRow(labels.name).closest('table').text());
+
+		// Location row looks like "811 01 Bratislava"
+		const locationText = findRow(labels.location).find('td').last().text().trim();
+		const postCodeMatch = locationText.match(postCodePattern);
+		const postCode = postCodeMatch ? postCodeMatch[0] : '';
+		const location = locationText.replace(postCodePattern, '').replace(/[\d.]/g, '').trim();
+
+		const viewsMatch = findRow(labels.views).text().replace(/\s/g, '').match(/(\d+)/);
+		const views = viewsMatch ? parseInt(viewsMatch[1], 10) : 0;
+
+		const priceText = findRow(labels.price).find('td').last().text().trim();
+		const { price, currency, priceType } = parsePrice(priceText, country);
+		if (parseFailures && BazosScraper.isUnknownPriceText(priceText, priceType, country)) {
+			parseFailures.push({ field: 'price', message: 'Could not parse the price, returned as inText', rawText: toRawText(priceText), url });
+		}
+
+		// Date is shown under the title, e.g. "- [27.10. 2025]"
+		const dateText = detail$('span.velikost10').first().text();
+		const parsedDate = parseBazosDate(dateText, country, timeZone);
+		const added = parsedDate?.addedDate ?? '';
+		if (!parsedDate) {
+			parseFailures?.push({ field: 'date', message: 'Could not parse the date', rawText: toRawText(dateText), url });
+		}
+
+		// Gallery images: the carousel uses lazy loading, thumbnails use the /1t/ style paths
+		const images: string[] = [];
+		detail$('img.carousel-cell-image, div.flinavigace img').each(function() {
+			const src = detail$(this).attr('data-flickity-lazyload') || detail$(this).attr('src') || '';
+			if (!src || src === 'empty') {
+				return;
 			}
-			
-			// Check if listing date is >= cutoff date (inclusive)
-			return listingDate >= cutoffDate;
-		} catch (error) {
-			// If there's any error parsing the date, include it to be safe
-			return true;
+			let image = src.replace(/(\d+)t\//, '$1/');
+			if (!image.startsWith('http')) {
+				image = `${baseUrl}${image}`;
+			}
+			if (!images.includes(image)) {
+				images.push(image);
+			}
+		});
+
+		// Breadcrumb navigation, e.g. "Hlavná stránka > PC > Notebooky"
+		const breadcrumb = detail$('div.drobky a')
+			.map(function() {
+				return detail$(this).text().trim();
+			})
+			.get()
+			.filter((crumb: string) => crumb !== '');
+		// The first crumb is always the home page
+		const category = breadcrumb.slice(1).join(' > ');
+
+		return {
+			id,
+			title,
+			link: url,
+			description,
+			images,
+			// Seller fields the page does not show are left out
+			...(name ? { name } : {}),
+			...(phone ? { phone } : {}),
+			hasPhone,
+			...(email ? { email } : {}),
+			...(sellerId ? { sellerId } : {}),
+			...(sellerUrl ? { sellerUrl } : {}),
+			location,
+			postCode,
+			...getGeoFields(postCode, country),
+			views,
+			added,
+			addedDate: parsedDate?.addedDate ?? null,
+			addedAt: parsedDate?.addedAt ?? null,
+			price,
+			currency,
+			priceType,
+			category,
+			breadcrumb,
+		};
+	}
+
+	// Seller profiles list all active listings of a seller and paginate like search results
+	static async scrapeSellerListings(params: {
+		sellerUrl: string;
+		resultsLimit: number;
+		withFullDescriptions: boolean;
+		country: string;
+		client?: BazosHttpClient;
+		timeZone?: string;
+	}) {
+		const client = params.client ?? new BazosHttpClient();
+		const listings: BazosListing[] = [];
+		const warnings: BazosIssue[] = [];
+		const separator = params.sellerUrl.includes('?') ? '&' : '?';
+		let offset = 0;
+
+		while (listings.length < params.resultsLimit) {
+			const pageUrl = offset === 0 ? params.sellerUrl : `${params.sellerUrl}${separator}crz=${offset}`;
+
+			const pageResponse = await client.get(pageUrl);
+
+			const page$ = cheerio.load(pageResponse.data);
+			// Seller pages list the listings like search results, so they fail the same way
+			BazosScraper.assertSearchPage(page$, pageUrl);
+			const listingElements = page$('div.inzeraty.inzeratyflex');
+
+			// If no more listings found, break
+			if (listingElements.length === 0) {
+				break;
+			}
+
+			const pageListings = BazosScraper.parseListingElements(listingElements, null, params.country, '', offset / 20 + 1, pageUrl, warnings, params.timeZone, client.debug?.parseFailures);
+			listings.push(...pageListings.slice(0, params.resultsLimit - listings.length));
+
+			// A page with fewer than 20 listings is the last one
+			if (listingElements.length < 20) {
+				break;
+			}
+
+			// Move to next page (20 items per page)
+			offset += 20;
+
+			// Safety check - don't go beyond reasonable limits
+			if (offset > 1000) {
+				break;
+			}
+		}
+
+		warnings.push(...await BazosScraper.fetchListingDetails(listings, params.withFullDescriptions, false, params.country, client, false, false, params.timeZone));
+
+		return { listings, warnings };
+	}
+
+	static isSellerUrl(value: string): boolean {
+		const pages = SELLER_PAGES.map((page) => page.replace('.', '\\.')).join('|');
+		return new RegExp(`^https?://${BAZOS_HOST_PATTERN}/(${pages})\\?`).test(value.trim());
+	}
+
+	// The idmail parameter of the profile link stays the same across all listings of a seller
+	static getSellerId(sellerUrl: string): string {
+		const match = sellerUrl.match(/[?&]idmail=([^&]+)/);
+		return match ? decodeURIComponent(match[1]) : '';
+	}
+
+	// Downloads images one by one, skipping any that fail or exceed the size limit
+	static async downloadImages(context: IExecuteFunctions, urls: string[], maxCount: number, maxSizeMb: number, client: BazosHttpClient = new BazosHttpClient()) {
+		const maxSizeBytes = Math.round(maxSizeMb * 1024 * 1024);
+		const images = [];
+
+		for (const [index, url] of urls.slice(0, maxCount).entries()) {
+			try {
+				const response = await client.get(url, {
+					responseType: 'arraybuffer',
+					maxContentLength: maxSizeBytes > 0 ? maxSizeBytes : undefined,
+				});
+				// Gallery images share the listing id as file name, so prefix them with their position
+				const fileName = `${index + 1}_${url.split('/').pop()?.split('?')[0] || 'image.jpg'}`;
+				const mimeType = (response.headers['content-type'] as string | undefined) || 'image/jpeg';
+				images.push(await context.helpers.prepareBinaryData(Buffer.from(response.data), fileName, mimeType));
+			} catch (error) {
+				context.logger.warn(`Failed to download image ${url}: ${(error as Error).message}`);
+			}
+		}
+
+		return images;
+	}
+
+	// Sections live on their own hosts, e.g. auto.bazos.sk; the whole site is www
+	static getHost(country: string, category: string = ''): string {
+		return `${category || 'www'}.${getCountry(country).domain}`;
+	}
+
+	/**
+	 * Builds the URL of a search results page the way the Bazos search form does. Every search
+	 * URL is built here, so the searchUrl in the output is exactly the URL that was fetched.
+	 * Subcategory pages paginate by path (/notebook/20/), search.php by the crz parameter.
+	 */
+	static buildSearchUrl(
+		params: Pick<BazosSearchParams, 'search' | 'location' | 'distance' | 'minPrice' | 'maxPrice' | 'order' | 'country' | 'category' | 'subcategory' | 'extraParameters'>,
+		offset: number = 0,
+	): string {
+		const category = params.category || '';
+		const subcategory = category ? params.subcategory || '' : '';
+		const submitText = getCountry(params.country).submitLabel;
+
+		// Match the Bazos format exactly; extra parameters replace built-in ones of the same name
+		const query = new Map<string, string>([
+			['hledat', encodeURIComponent(params.search)],
+			['rubriky', category || 'www'],
+			['hlokalita', params.location || ''],
+			['humkreis', String(params.distance)],
+			...(params.minPrice !== null ? [['cenaod', String(params.minPrice)] as [string, string]] : []),
+			...(params.maxPrice !== null ? [['cenado', String(params.maxPrice)] as [string, string]] : []),
+			['Submit', encodeURIComponent(submitText)],
+			['order', String(params.order || '')],
+			['kitx', 'ano'],
+		]);
+		for (const [name, value] of Object.entries(params.extraParameters ?? {})) {
+			query.set(encodeURIComponent(name), encodeURIComponent(value));
 		}
+		const queryString = [...query].map(([name, value]) => `${name}=${value}`).join('&');
+
+		if (offset > 0 && subcategory) {
+			return `https://${BazosScraper.getHost(params.country, category)}/${subcategory}/${offset}/?${queryString}`;
+		}
+		const url = `${BazosScraper.getSearchBaseUrl(params.country, category, subcategory)}?${queryString}`;
+		return offset > 0 ? `${url}&crz=${offset}` : url;
+	}
+
+	// Subcategory listings are served from their own path, everything else from search.php
+	static getSearchBaseUrl(country: string, category: string = '', subcategory: string = ''): string {
+		const host = BazosScraper.getHost(country, category);
+		return category && subcategory ? `https://${host}/${subcategory}/` : `https://${host}/search.php`;
 	}
 }
@@ -0,0 +1,270 @@
+import {
+	IDataObject,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	IPollFunctions,
+	NodeOperationError,
+} from 'n8n-workflow';
+
+import { BazosScraper } from './BazosScraper.node';
+import { getCategories, getSubcategories } from './categories';
+import { countryOptions } from './countries';
+import { toNodeError } from './errors';
+import { buildListingFilters, listingFiltersDescription } from './filters';
+import { BazosListing } from './listing';
+import { BazosHttpClient, buildRequestOptions, requestOptionsDescription } from './transport';
+
+// Keep the stored id list bounded so static data does not grow forever
+const MAX_SEEN_IDS = 1000;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export class BazosScraperTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Bazos Scraper Trigger',
+		name: 'bazosScraperTrigger',
+		icon: 'file:bazos.svg',
+		group: ['trigger'],
+		version: 1,
+		subtitle: '={{$parameter["search"]}}',
+		description: 'Starts the workflow when new listings appear on Bazos',
+		defaults: {
+			name: 'Bazos Scraper Trigger',
+		},
+		polling: true,
+		inputs: [],
+		outputs: ['main'],
+		credentials: [
+			{
+				name: 'bazosProxyApi',
+				required: false,
+			},
+		],
+		properties: [
+			{
+				displayName: 'Search Term',
+				name: 'search',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g., darujem, notebook, auto',
+				description: 'Search term to look for in listings',
+				required: true,
+			},
+			{
+				displayName: 'Post Code',
+				name: 'location',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g., 81101, 04001',
+				description: 'Post code to search in (leave empty for all locations)',
+			},
+			{
+				displayName: 'Distance (km)',
+				name: 'distance',
+				type: 'number',
+				default: 25,
+				description: 'Search radius in kilometers from the post code',
+			},
+			{
+				displayName: 'Min Price',
+				name: 'minPrice',
+				type: 'number',
+				default: '',
+				placeholder: 'e.g., 100',
+				description: 'Minimum price filter (leave empty for no minimum)',
+			},
+			{
+				displayName: 'Max Price',
+				name: 'maxPrice',
+				type: 'number',
+				default: '',
+				placeholder: 'e.g., 1000',
+				description: 'Maximum price filter (leave empty for no maximum)',
+			},
+			{
+				displayName: 'Listings to Check',
+				name: 'resultsLimit',
+				type: 'number',
+				default: 40,
+				description: 'How many of the newest listings to check on every poll (max 1000)',
+			},
+			{
+				displayName: 'Fetch Full Descriptions',
+				name: 'withFullDescriptions',
+				type: 'boolean',
+				default: false,
+				description: 'When enabled, fetches full descriptions, names, and phone numbers from detail pages for listings with truncated descriptions',
+			},
+			{
+				displayName: 'Country',
+				name: 'country',
+				type: 'options',
+				options: countryOptions,
+				default: 'sk',
+				description: 'Select the Bazos domain to scrape',
+			},
+			{
+				displayName: 'Category Name or ID',
+				name: 'category',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getCategories',
+					loadOptionsDependsOn: ['country'],
+				},
+				default: '',
+				description: 'Bazos section to search in (e.g. auto, reality, pc). Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Subcategory Name or ID',
+				name: 'subcategory',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getSubcategories',
+					loadOptionsDependsOn: ['country', 'category'],
+				},
+				default: '',
+				displayOptions: {
+					hide: {
+						category: [''],
+					},
+				},
+				description: 'Subcategory within the selected section, as used in its URL path (e.g. notebook for pc.bazos.sk/notebook/). Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'On First Run',
+				name: 'firstRun',
+				type: 'options',
+				options: [
+					{
+						name: 'Only Set a Baseline',
+						value: 'baseline',
+						description: 'Remember the current listings and emit only listings that appear later',
+					},
+					{
+						name: 'Emit All Current Listings',
+						value: 'emitAll',
+						description: 'Emit every listing found on the first poll',
+					},
+				],
+				default: 'baseline',
+				description: 'What to do on the first poll, when no listings have been seen yet',
+			},
+			listingFiltersDescription,
+			requestOptionsDescription,
+		],
+	};
+
+	methods = {
+		loadOptions: {
+			getCategories,
+			getSubcategories,
+		},
+	};
+
+	async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+		const search = this.getNodeParameter('search') as string;
+		const location = this.getNodeParameter('location') as string;
+		const distance = this.getNodeParameter('distance') as number;
+
+		// Handle price parameters - convert empty strings to null, but keep 0 as valid value
+		const minPriceRaw = this.getNodeParameter('minPrice');
+		const minPrice = minPriceRaw === '' || minPriceRaw === null || minPriceRaw === undefined ? null : Number(minPriceRaw);
+
+		const maxPriceRaw = this.getNodeParameter('maxPrice');
+		const maxPrice = maxPriceRaw === '' || maxPriceRaw === null || maxPriceRaw === undefined ? null : Number(maxPriceRaw);
+
+		const resultsLimit = this.getNodeParameter('resultsLimit') as number;
+		const withFullDescriptions = this.getNodeParameter('withFullDescriptions') as boolean;
+		const country = this.getNodeParameter('country') as string;
+		const category = this.getNodeParameter('category', '') as string;
+		const subcategory = category ? (this.getNodeParameter('subcategory', '') as string) : '';
+		const firstRun = this.getNodeParameter('firstRun') as string;
+
+		if (!search) {
+			throw new NodeOperationError(this.getNode(), 'Search term is required');
+		}
+
+		// The proxy credential is optional
+		let proxyUrl: string | undefined;
+		if (this.getNode().credentials?.bazosProxyApi) {
+			const credentials = await this.getCredentials('bazosProxyApi');
+			proxyUrl = credentials.proxyUrl as string;
+		}
+
+		// Always poll newest first, so new listings are on the first pages
+		let listings: BazosListing[];
+		try {
+			// Built inside the try, so an unsupported proxy URL is reported like any other failure
+			const client = new BazosHttpClient({
+				...buildRequestOptions(this.getNodeParameter('requestOptions', {}) as IDataObject, proxyUrl),
+				logger: this.logger,
+			});
+			({ listings } = await BazosScraper.scrapeBazos({
+				search,
+				location,
+				distance,
+				minPrice,
+				maxPrice,
+				order: '',
+				resultsLimit,
+				publishedDays: null,
+				withFullDescriptions,
+				country,
+				category,
+				subcategory,
+				client,
+				filters: buildListingFilters(this.getNodeParameter('filters', {}) as IDataObject),
+			}));
+		} catch (error) {
+			throw toNodeError(this.getNode(), error as Error, 0);
+		}
+
+		// In manual mode just show the newest listing without touching the stored state
+		if (this.getMode() === 'manual') {
+			return listings.length ? [[{ json: { ...listings[0] } }]] : null;
+		}
+
+		const staticData = this.getWorkflowStaticData('node');
+		const isFirstRun = !Array.isArray(staticData.seenIds);
+		const seenIds = new Set<string>(isFirstRun ? [] : (staticData.seenIds as string[]));
+		const lastAdded = (staticData.lastAdded as string | undefined) ?? '';
+
+		// Listings without an image have id 0, so fall back to the link as the key
+		const newListings = listings.filter((listing) => {
+			const key = BazosScraperTrigger.listingKey(listing);
+			if (seenIds.has(key)) {
+				return false;
+			}
+			// Anything older than the newest date seen so far cannot be a new listing
+			const added = String(listing.added);
+			return !lastAdded || !ISO_DATE.test(added) || added >= lastAdded;
+		});
+
+		// Update the stored state: newest keys first, bounded in size
+		const currentKeys = listings.map((listing) => BazosScraperTrigger.listingKey(listing));
+		staticData.seenIds = [...new Set([...currentKeys, ...seenIds])].slice(0, MAX_SEEN_IDS);
+		const newestAdded = listings
+			.map((listing) => String(listing.added))
+			.filter((added: string) => ISO_DATE.test(added))
+			.sort()
+			.pop();
+		if (newestAdded && newestAdded > lastAdded) {
+			staticData.lastAdded = newestAdded;
+		}
+
+		if (isFirstRun && firstRun === 'baseline') {
+			return null;
+		}
+
+		if (newListings.length === 0) {
+			return null;
+		}
+
+		return [newListings.map((listing) => ({ json: { ...listing } }))];
+	}
+
+	private static listingKey(listing: BazosListing): string {
+		return listing.id ? String(listing.id) : String(listing.link);
+	}
+}
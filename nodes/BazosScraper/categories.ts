@@ -0,0 +1,178 @@
+import { ILoadOptionsFunctions, INodePropertyOptions } from 'n8n-workflow';
+
+interface BazosCategory {
+	name: string;
+	// Subcategory URL path on the section host, e.g. "notebook" for pc.bazos.sk/notebook/
+	subcategories: Record<string, string>;
+}
+
+// Section hosts differ between countries (e.g. dom.bazos.sk vs dum.bazos.cz),
+// so the lists are kept per country. Keys are the host prefixes. Countries without
+// a list here only offer "All Categories"; a section can still be set by expression.
+export const CATEGORIES: Record<string, Record<string, BazosCategory>> = {
+	sk: {
+		auto: {
+			name: 'Auto',
+			subcategories: {
+				audi: 'Audi',
+				bmw: 'BMW',
+				ford: 'Ford',
+				hyundai: 'Hyundai',
+				kia: 'Kia',
+				mercedes: 'Mercedes-Benz',
+				opel: 'Opel',
+				peugeot: 'Peugeot',
+				renault: 'Renault',
+				skoda: 'Škoda',
+				toyota: 'Toyota',
+				volkswagen: 'Volkswagen',
+				diely: 'Náhradné diely',
+			},
+		},
+		deti: { name: 'Deti', subcategories: {} },
+		dom: { name: 'Dom a záhrada', subcategories: {} },
+		elektro: {
+			name: 'Elektro',
+			subcategories: {
+				televizory: 'Televízory',
+				audio: 'Audio',
+				chladnicky: 'Chladničky',
+				pracky: 'Práčky',
+			},
+		},
+		foto: { name: 'Foto', subcategories: {} },
+		hudba: { name: 'Hudba', subcategories: {} },
+		knihy: { name: 'Knihy', subcategories: {} },
+		mobil: {
+			name: 'Mobily',
+			subcategories: {
+				apple: 'Apple',
+				samsung: 'Samsung',
+				xiaomi: 'Xiaomi',
+				prislusenstvo: 'Príslušenstvo',
+			},
+		},
+		motocykle: { name: 'Motocykle', subcategories: {} },
+		nabytok: { name: 'Nábytok', subcategories: {} },
+		oblecenie: { name: 'Oblečenie', subcategories: {} },
+		pc: {
+			name: 'PC',
+			subcategories: {
+				notebook: 'Notebooky',
+				pc: 'Počítače',
+				monitor: 'Monitory',
+				tablet: 'Tablety',
+				komponenty: 'Komponenty',
+			},
+		},
+		praca: { name: 'Práca', subcategories: {} },
+		reality: {
+			name: 'Reality',
+			subcategories: {
+				byt: 'Byty',
+				dom: 'Domy',
+				pozemok: 'Pozemky',
+				chata: 'Chaty',
+			},
+		},
+		sluzby: { name: 'Služby', subcategories: {} },
+		sport: { name: 'Šport', subcategories: {} },
+		stroje: { name: 'Stroje', subcategories: {} },
+		vstupenky: { name: 'Vstupenky', subcategories: {} },
+		zvierata: { name: 'Zvieratá', subcategories: {} },
+		ostatne: { name: 'Ostatné', subcategories: {} },
+	},
+	cz: {
+		auto: {
+			name: 'Auto',
+			subcategories: {
+				audi: 'Audi',
+				bmw: 'BMW',
+				ford: 'Ford',
+				hyundai: 'Hyundai',
+				kia: 'Kia',
+				mercedes: 'Mercedes-Benz',
+				opel: 'Opel',
+				peugeot: 'Peugeot',
+				renault: 'Renault',
+				skoda: 'Škoda',
+				toyota: 'Toyota',
+				volkswagen: 'Volkswagen',
+				dily: 'Náhradní díly',
+			},
+		},
+		deti: { name: 'Děti', subcategories: {} },
+		dum: { name: 'Dům a zahrada', subcategories: {} },
+		elektro: {
+			name: 'Elektro',
+			subcategories: {
+				televize: 'Televize',
+				audio: 'Audio',
+				lednice: 'Ledničky',
+				pracky: 'Pračky',
+			},
+		},
+		foto: { name: 'Foto', subcategories: {} },
+		hudba: { name: 'Hudba', subcategories: {} },
+		knihy: { name: 'Knihy', subcategories: {} },
+		mobil: {
+			name: 'Mobily',
+			subcategories: {
+				apple: 'Apple',
+				samsung: 'Samsung',
+				xiaomi: 'Xiaomi',
+				prislusenstvi: 'Příslušenství',
+			},
+		},
+		motorky: { name: 'Motorky', subcategories: {} },
+		nabytek: { name: 'Nábytek', subcategories: {} },
+		obleceni: { name: 'Oblečení', subcategories: {} },
+		pc: {
+			name: 'PC',
+			subcategories: {
+				notebook: 'Notebooky',
+				pc: 'Počítače',
+				monitor: 'Monitory',
+				tablet: 'Tablety',
+				komponenty: 'Komponenty',
+			},
+		},
+		prace: { name: 'Práce', subcategories: {} },
+		reality: {
+			name: 'Reality',
+			subcategories: {
+				byt: 'Byty',
+				dum: 'Domy',
+				pozemek: 'Pozemky',
+				chata: 'Chaty',
+			},
+		},
+		sluzby: { name: 'Služby', subcategories: {} },
+		sport: { name: 'Sport', subcategories: {} },
+		stroje: { name: 'Stroje', subcategories: {} },
+		vstupenky: { name: 'Vstupenky', subcategories: {} },
+		zvirata: { name: 'Zvířata', subcategories: {} },
+		ostatni: { name: 'Ostatní', subcategories: {} },
+	},
+};
+
+export async function getCategories(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+	const country = this.getCurrentNodeParameter('country') as string;
+	const categories = CATEGORIES[country] ?? {};
+
+	return [
+		{ name: 'All Categories', value: '' },
+		...Object.entries(categories).map(([value, category]) => ({ name: category.name, value })),
+	];
+}
+
+export async function getSubcategories(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+	const country = this.getCurrentNodeParameter('country') as string;
+	const category = this.getCurrentNodeParameter('category') as string;
+	const subcategories = CATEGORIES[country]?.[category]?.subcategories ?? {};
+
+	return [
+		{ name: 'All Subcategories', value: '' },
+		...Object.entries(subcategories).map(([value, name]) => ({ name, value })),
+	];
+}
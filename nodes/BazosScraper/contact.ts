@@ -0,0 +1,36 @@
+import { getCountry } from './countries';
+
+// E.164 allows at most 15 digits; shorter than 8 is not a phone number
+const MIN_DIGITS = 8;
+const MAX_DIGITS = 15;
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(\.[\w-]+)+/;
+
+/**
+ * Normalizes a phone number as shown on Bazos ("0901 234 567", "777 123 456", "+421 901 234 567",
+ * "00420 777 123 456") to E.164 (+421901234567). Numbers without an international prefix get the
+ * calling code of the domain; a leading 0 is the national trunk prefix and is dropped.
+ */
+export function toE164(phone: string, country: string = 'sk'): string | null {
+	const trimmed = phone.trim();
+	let digits = trimmed.replace(/\D/g, '');
+	if (!digits) {
+		return null;
+	}
+
+	// "+421 ..." is already international, "00421 ..." is the same number dialed from Europe
+	if (!trimmed.startsWith('+')) {
+		digits = digits.startsWith('00') ? digits.slice(2) : `${getCountry(country).callingCode}${digits.replace(/^0/, '')}`;
+	}
+
+	return digits.length >= MIN_DIGITS && digits.length <= MAX_DIGITS ? `+${digits}` : null;
+}
+
+// Bazos hides most e-mail addresses behind a contact form, so this is only set when one is shown
+export function findEmail(mailtoHref: string, text: string): string | null {
+	const address = mailtoHref.replace(/^mailto:/i, '').split('?')[0].trim();
+	if (EMAIL_PATTERN.test(address)) {
+		return address;
+	}
+	return text.match(EMAIL_PATTERN)?.[0] ?? null;
+}
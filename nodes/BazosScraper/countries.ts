@@ -0,0 +1,150 @@
+import { INodePropertyOptions } from 'n8n-workflow';
+
+import type { PriceType } from './price';
+
+export interface BazosCountry {
+	// Shown in the Country option of the nodes
+	name: string;
+	domain: string;
+	// Label of the search button, sent as the Submit parameter like the search form does
+	submitLabel: string;
+	// ISO 4217 code of prices shown without a currency sign
+	currency: string;
+	// International calling code of phone numbers shown without one, without the +
+	callingCode: string;
+	// Price texts used instead of a number, matched lowercase and without diacritics
+	priceWords: Partial<Record<PriceType, string[]>>;
+	// Row labels of the seller table on detail pages
+	detailLabels: {
+		name: string;
+		location: string;
+		views: string;
+		price: string;
+	};
+	// Seller profile page, linked from every listing of the seller
+	sellerPage: string;
+	// Post code as shown in the location of a listing
+	postCode: RegExp;
+	// Total count in the heading of the search results; the capture group is the number
+	totalResults: RegExp;
+	// Relative dates under listing titles; the capture group is the number of hours or days
+	dates: {
+		today: RegExp;
+		yesterday: RegExp;
+		hoursAgo: RegExp;
+		daysAgo: RegExp;
+	};
+}
+
+// Adding a country means adding an entry here (and optionally its categories in categories.ts)
+export const COUNTRIES: Record<string, BazosCountry> = {
+	sk: {
+		name: 'Slovakia (bazos.sk)',
+		domain: 'bazos.sk',
+		submitLabel: 'Hľadať',
+		currency: 'EUR',
+		callingCode: '421',
+		priceWords: {
+			free: ['zadarmo'],
+			negotiable: ['dohodou'],
+			inText: ['v texte'],
+			offer: ['ponuknite', 'ponuka'],
+		},
+		detailLabels: { name: 'Meno:', location: 'Lokalita:', views: 'Videnie:', price: 'Cena:' },
+		sellerPage: 'hodnotenie.php',
+		postCode: /\d{3}\s\d{2}/,
+		totalResults: /z\s+([\d\s]+)$/,
+		dates: {
+			today: /dnes/,
+			yesterday: /včera/,
+			hoursAgo: /pred\s+(\d+)\s+hodinami/,
+			daysAgo: /pred\s+(\d+)\s+dňami/,
+		},
+	},
+	cz: {
+		name: 'Czech Republic (bazos.cz)',
+		domain: 'bazos.cz',
+		submitLabel: 'Hledat',
+		currency: 'CZK',
+		callingCode: '420',
+		priceWords: {
+			free: ['zdarma'],
+			negotiable: ['dohodou'],
+			inText: ['v textu'],
+			offer: ['nabidnete', 'nabidka'],
+		},
+		detailLabels: { name: 'Jméno:', location: 'Lokalita:', views: 'Vidělo:', price: 'Cena:' },
+		sellerPage: 'hodnoceni.php',
+		postCode: /\d{3}\s\d{2}/,
+		totalResults: /z\s+([\d\s]+)$/,
+		dates: {
+			today: /dnes/,
+			yesterday: /včera/,
+			hoursAgo: /p[řr]ed\s+(\d+)\s+hodinami/,
+			daysAgo: /před\s+(\d+)\s+dny/,
+		},
+	},
+	pl: {
+		name: 'Poland (bazos.pl)',
+		domain: 'bazos.pl',
+		submitLabel: 'Szukaj',
+		currency: 'PLN',
+		callingCode: '48',
+		priceWords: {
+			free: ['za darmo', 'oddam'],
+			negotiable: ['do negocjacji', 'do uzgodnienia'],
+			inText: ['w tekscie'],
+			offer: ['zaproponuj'],
+		},
+		detailLabels: { name: 'Imię:', location: 'Lokalizacja:', views: 'Wyświetlenia:', price: 'Cena:' },
+		sellerPage: 'ocena.php',
+		postCode: /\d{2}-\d{3}/,
+		totalResults: /z\s+([\d\s]+)$/,
+		dates: {
+			today: /dzisiaj|dziś/,
+			yesterday: /wczoraj/,
+			hoursAgo: /(\d+)\s+godz/,
+			daysAgo: /(\d+)\s+dni/,
+		},
+	},
+	at: {
+		name: 'Austria (bazos.at)',
+		domain: 'bazos.at',
+		submitLabel: 'Suchen',
+		currency: 'EUR',
+		callingCode: '43',
+		priceWords: {
+			free: ['gratis', 'kostenlos', 'zu verschenken'],
+			negotiable: ['verhandlungsbasis', 'vb'],
+			inText: ['im text'],
+			offer: ['auf anfrage', 'angebot'],
+		},
+		detailLabels: { name: 'Name:', location: 'Ort:', views: 'Gesehen:', price: 'Preis:' },
+		sellerPage: 'bewertung.php',
+		postCode: /(?<!\d)\d{4}(?!\d)/,
+		totalResults: /von\s+([\d\s.]+)$/i,
+		dates: {
+			today: /heute/i,
+			yesterday: /gestern/i,
+			hoursAgo: /vor\s+(\d+)\s+stunden?/i,
+			daysAgo: /vor\s+(\d+)\s+tag(en)?/i,
+		},
+	},
+};
+
+// Unknown codes fall back to Slovakia, the default of the Country option
+export function getCountry(code: string): BazosCountry {
+	return COUNTRIES[code] ?? COUNTRIES.sk;
+}
+
+export const countryOptions: INodePropertyOptions[] = Object.entries(COUNTRIES).map(([value, country]) => ({
+	name: country.name,
+	value,
+}));
+
+// Matches the host of any supported Bazos site, e.g. pc.bazos.sk or www.bazos.at
+export const BAZOS_HOST_PATTERN = `([\\w-]+\\.)*(${Object.values(COUNTRIES)
+	.map((country) => country.domain.replace('.', '\\.'))
+	.join('|')})`;
+
+export const SELLER_PAGES = [...new Set(Object.values(COUNTRIES).map((country) => country.sellerPage))];
@@ -0,0 +1,151 @@
+import { createHash } from 'crypto';
+import { INodeProperties } from 'n8n-workflow';
+
+import { BazosScraperError } from './errors';
+
+// Bazos stops serving result pages of a search after this many listings
+export const MAX_PAGINATED_RESULTS = 1000;
+
+// Upper bound for splitting searches without a max price; the last band stays open
+const MAX_BAND_PRICE = 1000000;
+
+export interface BazosPriceBand {
+	minPrice: number | null;
+	maxPrice: number | null;
+	totalResults: number;
+}
+
+/**
+ * Where a paginated search continues: the page offset within the current price band. The bands are
+ * found on the first run and carried along, so later runs do not have to count the results again.
+ */
+export interface BazosCursor {
+	queryHash: string;
+	offset: number;
+	band?: number;
+	priceBands?: BazosPriceBand[];
+}
+
+export const cursorPaginationDescription: INodeProperties[] = [
+	{
+		displayName: 'Pagination',
+		name: 'pagination',
+		type: 'options',
+		options: [
+			{
+				name: 'Up to Results Limit',
+				value: 'limit',
+				description: 'Return up to Results Limit listings (at most 1000) in one run',
+			},
+			{
+				name: 'Cursor',
+				value: 'cursor',
+				description: 'Return the next chunk of Results Limit listings and a cursor to continue from, for walking all results in a loop',
+			},
+		],
+		default: 'limit',
+		displayOptions: {
+			show: {
+				operation: ['search'],
+			},
+		},
+	},
+	{
+		displayName: 'Start Cursor',
+		name: 'startCursor',
+		type: 'json',
+		default: '',
+		placeholder: 'e.g., {{ $json.nextCursor }}',
+		description: 'The nextCursor of the previous run; leave empty to start from the first page',
+		displayOptions: {
+			show: {
+				operation: ['search'],
+				pagination: ['cursor'],
+			},
+		},
+	},
+	{
+		displayName: 'Split into Price Bands',
+		name: 'splitPriceBands',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to split a search with more than 1000 results into price ranges with fewer results each, since Bazos only pages through the first 1000',
+		displayOptions: {
+			show: {
+				operation: ['search'],
+				pagination: ['cursor'],
+			},
+		},
+	},
+];
+
+// Identifies a search by its first page URL, so a cursor cannot continue a different search
+export function getQueryHash(searchUrl: string): string {
+	return createHash('sha256').update(searchUrl).digest('hex').slice(0, 16);
+}
+
+// The start cursor comes from a JSON parameter, as an object or as its JSON text
+export function parseCursor(value: unknown, queryHash: string): BazosCursor | null {
+	if (value === '' || value === null || value === undefined) {
+		return null;
+	}
+
+	let cursor: BazosCursor;
+	try {
+		cursor = (typeof value === 'string' ? JSON.parse(value) : value) as BazosCursor;
+	} catch {
+		throw new BazosScraperError('invalidParameters', 'Start Cursor is not valid JSON');
+	}
+	if (!cursor || typeof cursor !== 'object' || typeof cursor.offset !== 'number' || cursor.offset < 0 || cursor.offset % 20 !== 0) {
+		throw new BazosScraperError('invalidParameters', 'Start Cursor must be the nextCursor of a previous run');
+	}
+	if (cursor.queryHash !== queryHash) {
+		throw new BazosScraperError('invalidParameters', 'Start Cursor belongs to a different search; start again with an empty cursor');
+	}
+	if (cursor.priceBands && !(cursor.band! >= 0 && cursor.band! < cursor.priceBands.length)) {
+		throw new BazosScraperError('invalidParameters', 'Start Cursor points to a price band that does not exist');
+	}
+	return cursor;
+}
+
+/**
+ * Splits a price range in halves until every part has at most 1000 results. countResults reads
+ * the total of a range from its first result page. An empty half is merged into the other one, so
+ * the bands still cover the whole range for listings added later. A single price with more results
+ * cannot be split further and is returned as it is.
+ */
+export async function findPriceBands(
+	minPrice: number | null,
+	maxPrice: number | null,
+	countResults: (minPrice: number | null, maxPrice: number | null) => Promise<number>,
+): Promise<BazosPriceBand[]> {
+	const totalResults = await countResults(minPrice, maxPrice);
+	if (totalResults === 0) {
+		return [];
+	}
+	if (totalResults <= MAX_PAGINATED_RESULTS) {
+		return [{ minPrice, maxPrice, totalResults }];
+	}
+
+	const low = minPrice ?? 0;
+	const high = maxPrice ?? Math.max(MAX_BAND_PRICE, low * 2);
+	if (high <= low) {
+		return [{ minPrice, maxPrice, totalResults }];
+	}
+
+	// Prices are whole numbers, so the halves do not overlap
+	const middle = Math.floor((low + high) / 2);
+	const lower = await findPriceBands(minPrice, middle, countResults);
+	const upper = await findPriceBands(middle + 1, maxPrice, countResults);
+	// The totals can change between requests; when both halves are empty now, keep the range as one band
+	if (lower.length === 0 && upper.length === 0) {
+		return [{ minPrice, maxPrice, totalResults }];
+	}
+	if (lower.length === 0) {
+		upper[0].minPrice = minPrice;
+	}
+	if (upper.length === 0) {
+		lower[lower.length - 1].maxPrice = maxPrice;
+	}
+	return [...lower, ...upper];
+}
@@ -0,0 +1,84 @@
+import { BazosScraperError } from './errors';
+import { getCountry } from './countries';
+
+// Bazos shows dates in Central European time on all domains
+export const DEFAULT_TIME_ZONE = 'Europe/Bratislava';
+
+// Bazos started in 2003; dates a year ahead allow for clock differences around New Year
+const MIN_YEAR = 2000;
+
+export interface BazosDate {
+	// Calendar day in the configured time zone, YYYY-MM-DD
+	addedDate: string;
+	// Exact ISO timestamp, only known for "X hours ago" texts
+	addedAt: string | null;
+}
+
+export function assertTimeZone(timeZone: string) {
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone });
+	} catch {
+		throw new BazosScraperError('invalidParameters', `Unknown time zone "${timeZone}", use an IANA name like Europe/Bratislava`);
+	}
+}
+
+// The en-CA locale formats dates as YYYY-MM-DD
+export function toZonedDate(date: Date, timeZone: string): string {
+	return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+}
+
+// Calendar arithmetic on YYYY-MM-DD strings, independent of the server time zone
+export function addDays(date: string, days: number): string {
+	const [year, month, day] = date.split('-').map(Number);
+	return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+/**
+ * Parses the date shown under a listing title, either "[27.10. 2025]" or a relative text in the
+ * language of the domain ("dnes", "pred 3 hodinami"). Relative days are counted in the given time
+ * zone, so a listing from "today" is dated by the Bazos calendar, not by the server clock.
+ */
+export function parseBazosDate(dateText: string, country: string = 'sk', timeZone: string = DEFAULT_TIME_ZONE, now: Date = new Date()): BazosDate | null {
+	const today = toZonedDate(now, timeZone);
+
+	const fullDateMatch = dateText.match(/(\d{1,2})\.(\d{1,2})\.\s*(\d{4})\b/);
+	if (fullDateMatch) {
+		const [day, month, year] = fullDateMatch.slice(1).map(Number);
+		const maxYear = Number(today.slice(0, 4)) + 1;
+		// Date.UTC rolls invalid days over, e.g. 31.02. becomes 03.03.
+		const date = new Date(Date.UTC(year, month - 1, day));
+		if (year < MIN_YEAR || year > maxYear || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+			return null;
+		}
+		return { addedDate: date.toISOString().split('T')[0], addedAt: null };
+	}
+
+	// Relative dates use the words of the site's language
+	const dates = getCountry(country).dates;
+	const hoursMatch = dateText.match(dates.hoursAgo);
+	const daysMatch = dateText.match(dates.daysAgo);
+
+	if (dates.today.test(dateText)) {
+		return { addedDate: today, addedAt: null };
+	}
+	if (dates.yesterday.test(dateText)) {
+		return { addedDate: addDays(today, -1), addedAt: null };
+	}
+	if (hoursMatch) {
+		const addedAt = new Date(now.getTime() - Number(hoursMatch[1]) * 60 * 60 * 1000);
+		return { addedDate: toZonedDate(addedAt, timeZone), addedAt: addedAt.toISOString() };
+	}
+	if (daysMatch) {
+		return { addedDate: addDays(today, -Number(daysMatch[1])), addedAt: null };
+	}
+
+	return null;
+}
+
+// Published in the last N days includes the whole cutoff day; listings without a date are kept
+export function isPublishedWithin(date: BazosDate | null, publishedDays: number, timeZone: string = DEFAULT_TIME_ZONE, now: Date = new Date()): boolean {
+	if (!date) {
+		return true;
+	}
+	return date.addedDate >= addDays(toZonedDate(now, timeZone), -publishedDays);
+}
@@ -0,0 +1,35 @@
+export interface BazosDebugRequest {
+	url: string;
+	// null when the request failed without a response
+	status: number | null;
+	durationMs: number;
+	// 0 for the first try, 1 for the first retry, ...
+	attempt: number;
+	error?: string;
+}
+
+// A listing that could not be parsed, or a field of it that was left empty
+export interface BazosParseFailure {
+	field: 'listing' | 'date' | 'price' | 'postCode';
+	message: string;
+	rawText: string;
+	url?: string;
+	page?: number;
+}
+
+export interface BazosDebugInfo {
+	requests: BazosDebugRequest[];
+	parseFailures: BazosParseFailure[];
+}
+
+// Raw texts are cut, a broken listing can contain the whole page
+const MAX_RAW_TEXT = 500;
+
+export function createDebugInfo(): BazosDebugInfo {
+	return { requests: [], parseFailures: [] };
+}
+
+export function toRawText(text: string): string {
+	const normalized = text.replace(/\s+/g, ' ').trim();
+	return normalized.length > MAX_RAW_TEXT ? `${normalized.slice(0, MAX_RAW_TEXT)}…` : normalized;
+}
@@ -0,0 +1,170 @@
+import { createHash } from 'crypto';
+import { INodeProperties } from 'n8n-workflow';
+
+import { BazosListing } from './listing';
+import { stripDiacritics } from './price';
+
+// Share of common words from which two descriptions count as the same text
+const MIN_DESCRIPTION_SIMILARITY = 0.8;
+
+export const duplicatesDescription: INodeProperties[] = [
+	{
+		displayName: 'Duplicates',
+		name: 'duplicates',
+		type: 'options',
+		options: [
+			{
+				name: 'Keep All',
+				value: 'off',
+			},
+			{
+				name: 'Mark Duplicates',
+				value: 'mark',
+				description: 'Add fingerprint, groupId and duplicateOf to every listing',
+			},
+			{
+				name: 'Keep One per Group',
+				value: 'keepOne',
+				description: 'Return only the newest listing of each group of reposts, with the IDs of the others in duplicateIds',
+			},
+		],
+		default: 'off',
+		description: 'Whether to detect the same item listed several times under different IDs, e.g. when a seller deletes and reposts it',
+		displayOptions: {
+			show: {
+				operation: ['search', 'searchMany'],
+			},
+		},
+	},
+	{
+		displayName: 'Compare Cover Images',
+		name: 'compareCoverImages',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to download the cover image of every listing and treat listings with the same image as duplicates. Costs one request per listing.',
+		displayOptions: {
+			show: {
+				operation: ['search', 'searchMany'],
+				duplicates: ['mark', 'keepOne'],
+			},
+		},
+	},
+];
+
+const normalizeText = (text: string) =>
+	stripDiacritics(text.toLowerCase())
+		.replace(/[^a-z0-9]+/g, ' ')
+		.trim();
+
+const normalizePhone = (phone: string) => phone.replace(/\D/g, '').slice(-9);
+
+/**
+ * Identifies what is sold: the normalized title, price and post code. Reposts of the same item share
+ * it, but so can two sellers of the same model in one town, so markDuplicates also compares the
+ * description, the phone or the cover image.
+ */
+export function getFingerprint(listing: BazosListing): string {
+	const key = [normalizeText(listing.title), listing.price ?? '', String(listing.postCode ?? '').replace(/\D/g, '')].join('|');
+	return createHash('sha256').update(key).digest('hex').slice(0, 16);
+}
+
+// Jaccard similarity of the word sets; the "..." of truncated descriptions is ignored. Two empty
+// descriptions say nothing about the item, so they are not similar
+export function descriptionSimilarity(first: string, second: string): number {
+	const words = (text: string) => new Set(normalizeText(text.replace(/\.\.\.$/, '')).split(' ').filter((word) => word !== ''));
+	const firstWords = words(first);
+	const secondWords = words(second);
+	if (firstWords.size === 0 || secondWords.size === 0) {
+		return 0;
+	}
+	const common = [...firstWords].filter((word) => secondWords.has(word)).length;
+	return common / (firstWords.size + secondWords.size - common);
+}
+
+function isSameItem(first: BazosListing, second: BazosListing): boolean {
+	// A repost comes from the same seller, so two known phones that differ rule it out
+	if (first.phone && second.phone) {
+		if (normalizePhone(first.phone) !== normalizePhone(second.phone)) {
+			return false;
+		}
+		if (first.fingerprint === second.fingerprint) {
+			return true;
+		}
+	}
+	// The same photo uploaded again is the strongest sign of a repost
+	if (first.coverImageHash && first.coverImageHash === second.coverImageHash) {
+		return true;
+	}
+	if (first.fingerprint !== second.fingerprint) {
+		return false;
+	}
+	const description = (listing: BazosListing) => listing.fullDescription || listing.description || '';
+	return descriptionSimilarity(description(first), description(second)) >= MIN_DESCRIPTION_SIMILARITY;
+}
+
+/**
+ * Groups listings of the same item and adds fingerprint, groupId and duplicateOf. Bazos IDs grow
+ * over time, so the group is named after its oldest listing (the lowest ID); the other listings are
+ * duplicateOf it. A listing without duplicates is its own group with duplicateOf null.
+ */
+export function markDuplicates(listings: BazosListing[]) {
+	for (const listing of listings) {
+		listing.fingerprint = getFingerprint(listing);
+	}
+
+	// Union-find over listing indexes, so A = B and B = C also puts A and C in one group
+	const parents = listings.map((_, index) => index);
+	const find = (index: number): number => (parents[index] === index ? index : (parents[index] = find(parents[index])));
+	// Phones of every group by its root, so a listing without a phone cannot join two sellers
+	const phones = listings.map((listing) => new Set(listing.phone ? [normalizePhone(listing.phone)] : []));
+	const samePhones = (first: Set<string>, second: Set<string>) =>
+		first.size === 0 || second.size === 0 || (first.size === second.size && [...first].every((phone) => second.has(phone)));
+	for (let i = 0; i < listings.length; i++) {
+		for (let j = i + 1; j < listings.length; j++) {
+			const first = find(i);
+			const second = find(j);
+			if (first !== second && samePhones(phones[first], phones[second]) && isSameItem(listings[i], listings[j])) {
+				parents[second] = first;
+				phones[first] = new Set([...phones[first], ...phones[second]]);
+			}
+		}
+	}
+
+	const groups = new Map<number, BazosListing[]>();
+	listings.forEach((listing, index) => {
+		const root = find(index);
+		groups.set(root, [...(groups.get(root) ?? []), listing]);
+	});
+	for (const group of groups.values()) {
+		const oldest = group.reduce((first, listing) => (listing.id && (!first.id || listing.id < first.id) ? listing : first));
+		// Listings without an image have id 0, so the link identifies them
+		for (const listing of group) {
+			listing.groupId = oldest.id || oldest.link;
+			listing.duplicateOf = listing === oldest ? null : oldest.id || oldest.link;
+		}
+	}
+}
+
+/**
+ * Keeps the newest listing of every group (the repost that is on top now), in the original order.
+ * The listings it was a repost of are dropped, so it lists them in duplicateIds and gets
+ * duplicateOf null.
+ */
+export function keepOnePerGroup(listings: BazosListing[]): BazosListing[] {
+	const newest = new Map<string, BazosListing>();
+	for (const listing of listings) {
+		const current = newest.get(String(listing.groupId));
+		if (!current || listing.id > current.id) {
+			newest.set(String(listing.groupId), listing);
+		}
+	}
+
+	const kept = listings.filter((listing) => newest.get(String(listing.groupId)) === listing);
+	for (const listing of kept) {
+		listing.duplicateOf = null;
+		listing.duplicateIds = listings
+			.filter((other) => other !== listing && other.groupId === listing.groupId)
+			.map((other) => other.id || other.link);
+	}
+	return kept;
+}
@@ -0,0 +1,88 @@
+import axios from 'axios';
+import { INode, JsonObject, NodeApiError, NodeOperationError } from 'n8n-workflow';
+
+export type BazosErrorType = 'network' | 'blocked' | 'httpStatus' | 'markupChanged' | 'invalidParameters';
+
+// Where a non-fatal problem happened: a listing page, a single listing on it, or a detail page
+export type BazosIssueStage = 'page' | 'listing' | 'detail';
+
+export interface BazosIssue {
+	stage: BazosIssueStage;
+	type: BazosErrorType;
+	message: string;
+	url?: string;
+	page?: number;
+	listingId?: number;
+}
+
+const DESCRIPTIONS: Record<BazosErrorType, string> = {
+	network: 'Bazos could not be reached. Check the network connection and proxy settings, then try again.',
+	blocked: 'Bazos refused the request or asked for a captcha, most likely because of too many requests from this IP address. Lower the request rate or use a proxy.',
+	httpStatus: 'Bazos answered with an unexpected HTTP status. The site may be temporarily unavailable.',
+	markupChanged: 'The page did not have the expected structure, so Bazos has probably changed its markup. Please report this together with the URL.',
+	invalidParameters: 'Check the node parameters and try again.',
+};
+
+export class BazosScraperError extends Error {
+	constructor(
+		readonly type: BazosErrorType,
+		message: string,
+		readonly url?: string,
+		readonly statusCode?: number,
+	) {
+		super(message);
+		this.name = 'BazosScraperError';
+	}
+
+	get description(): string {
+		return DESCRIPTIONS[this.type];
+	}
+
+	// Classifies a failed request: no response is a network error, 403/429 means we are blocked
+	static fromRequestError(error: unknown, url: string): BazosScraperError {
+		if (error instanceof BazosScraperError) {
+			return error;
+		}
+		if (axios.isAxiosError(error) && error.response) {
+			const status = error.response.status;
+			const type = status === 403 || status === 429 ? 'blocked' : 'httpStatus';
+			return new BazosScraperError(type, `Request to ${url} failed with HTTP status ${status}`, url, status);
+		}
+		return new BazosScraperError('network', `Request to ${url} failed: ${(error as Error).message}`, url);
+	}
+}
+
+export function toIssue(stage: BazosIssueStage, error: unknown, extra: Partial<BazosIssue> = {}): BazosIssue {
+	const type = error instanceof BazosScraperError ? error.type : 'markupChanged';
+	const url = error instanceof BazosScraperError ? error.url : undefined;
+	return {
+		stage,
+		type,
+		message: (error as Error).message,
+		...(url ? { url } : {}),
+		...extra,
+	};
+}
+
+// Request problems become NodeApiError, problems with the page content or parameters NodeOperationError
+export function toNodeError(node: INode, error: Error, itemIndex: number): NodeApiError | NodeOperationError {
+	if (!(error instanceof BazosScraperError)) {
+		return error instanceof NodeOperationError || error instanceof NodeApiError
+			? error
+			: new NodeOperationError(node, error, { itemIndex });
+	}
+
+	if (error.type === 'network' || error.type === 'blocked' || error.type === 'httpStatus') {
+		return new NodeApiError(node, { message: error.message, url: error.url ?? null } as JsonObject, {
+			message: error.message,
+			description: error.description,
+			httpCode: error.statusCode ? String(error.statusCode) : undefined,
+			itemIndex,
+		});
+	}
+
+	return new NodeOperationError(node, error.message, {
+		description: error.description,
+		itemIndex,
+	});
+}
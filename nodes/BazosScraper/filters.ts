@@ -0,0 +1,147 @@
+import { IDataObject, INodeProperties } from 'n8n-workflow';
+
+import { BazosScraperError } from './errors';
+import { stripDiacritics } from './price';
+
+// Client-side filters applied to parsed listings, on top of what the Bazos search itself supports
+export interface BazosListingFilters {
+	excludeWords: string[];
+	requiredWords: string[];
+	regex?: RegExp;
+	// Match words and the regex against the title only instead of title and description
+	titleOnly: boolean;
+	sellerNames: string[];
+	// Last 9 digits, so "+421 901 234 567" and "0901234567" are the same number
+	sellerPhones: string[];
+}
+
+export type BazosFilterReason = 'excludeWords' | 'requiredWords' | 'regex' | 'sellerBlacklist';
+
+export type BazosFilterCounts = Record<BazosFilterReason, number>;
+
+const normalizeText = (text: string) => stripDiacritics(text.toLowerCase());
+
+const normalizePhone = (phone: string) => phone.replace(/\D/g, '').slice(-9);
+
+const splitList = (value: unknown) =>
+	String(value ?? '')
+		.split(/[,\n]/)
+		.map((entry) => entry.trim())
+		.filter((entry) => entry !== '');
+
+export const listingFiltersDescription: INodeProperties = {
+	displayName: 'Filters',
+	name: 'filters',
+	type: 'collection',
+	placeholder: 'Add Filter',
+	default: {},
+	description: 'Filters applied to the listings after they are parsed. Pagination continues until enough matching listings are found.',
+	options: [
+		{
+			displayName: 'Exclude Words',
+			name: 'excludeWords',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g., obal, kábel, kryt',
+			description: 'Comma-separated words; listings containing any of them are dropped. Matching ignores case and diacritics.',
+		},
+		{
+			displayName: 'Match Title Only',
+			name: 'titleOnly',
+			type: 'boolean',
+			default: false,
+			description: 'Whether to match the words and the regular expression against the title only instead of the title and description',
+		},
+		{
+			displayName: 'Regular Expression',
+			name: 'regex',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g., iphone\\s*1[3-5]',
+			description: 'Only keep listings matching this case-insensitive regular expression',
+		},
+		{
+			displayName: 'Required Words',
+			name: 'requiredWords',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g., iphone, 128',
+			description: 'Comma-separated words; listings must contain all of them. Matching ignores case and diacritics.',
+		},
+		{
+			displayName: 'Seller Blacklist',
+			name: 'sellerBlacklist',
+			type: 'string',
+			typeOptions: {
+				rows: 3,
+			},
+			default: '',
+			description: 'Seller names or phone numbers to drop, one per line or comma-separated. Needs the seller data from the detail page of every listing, so it costs one extra request per listing.',
+		},
+	],
+};
+
+// Turns the "Filters" collection into filters, or undefined when no filter is set
+export function buildListingFilters(collection: IDataObject): BazosListingFilters | undefined {
+	const blacklist = splitList(collection.sellerBlacklist);
+	const regexSource = String(collection.regex ?? '').trim();
+
+	let regex: RegExp | undefined;
+	if (regexSource) {
+		try {
+			regex = new RegExp(regexSource, 'i');
+		} catch (error) {
+			throw new BazosScraperError('invalidParameters', `Invalid regular expression "${regexSource}": ${(error as Error).message}`);
+		}
+	}
+
+	const filters: BazosListingFilters = {
+		excludeWords: splitList(collection.excludeWords).map(normalizeText),
+		requiredWords: splitList(collection.requiredWords).map(normalizeText),
+		regex,
+		titleOnly: collection.titleOnly === true,
+		// Entries made of digits, spaces and + are phone numbers, everything else is a name
+		sellerNames: blacklist.filter((entry) => !/^[\d\s+/-]+$/.test(entry)).map(normalizeText),
+		sellerPhones: blacklist.filter((entry) => /^[\d\s+/-]+$/.test(entry)).map(normalizePhone),
+	};
+
+	const isEmpty = !filters.excludeWords.length && !filters.requiredWords.length && !filters.regex && !blacklist.length;
+	return isEmpty ? undefined : filters;
+}
+
+export function emptyFilterCounts(): BazosFilterCounts {
+	return { excludeWords: 0, requiredWords: 0, regex: 0, sellerBlacklist: 0 };
+}
+
+export function hasSellerFilter(filters: BazosListingFilters): boolean {
+	return filters.sellerNames.length > 0 || filters.sellerPhones.length > 0;
+}
+
+// Checks title and description; returns why the listing is dropped, or null to keep it
+export function getTextFilterReason(listing: { title: string; description: string }, filters: BazosListingFilters): BazosFilterReason | null {
+	const text = filters.titleOnly ? listing.title : `${listing.title}\n${listing.description}`;
+	const normalized = normalizeText(text);
+
+	if (filters.excludeWords.some((word) => normalized.includes(word))) {
+		return 'excludeWords';
+	}
+	if (!filters.requiredWords.every((word) => normalized.includes(word))) {
+		return 'requiredWords';
+	}
+	// The regex sees the original text, so it can match diacritics itself
+	if (filters.regex && !filters.regex.test(text)) {
+		return 'regex';
+	}
+	return null;
+}
+
+// Checks the seller data from the detail page; listings without it are kept
+export function getSellerFilterReason(listing: { name?: string; phone?: string }, filters: BazosListingFilters): BazosFilterReason | null {
+	const name = normalizeText((listing.name ?? '').trim());
+	const phone = normalizePhone(listing.phone ?? '');
+
+	if ((name && filters.sellerNames.includes(name)) || (phone && filters.sellerPhones.includes(phone))) {
+		return 'sellerBlacklist';
+	}
+	return null;
+}
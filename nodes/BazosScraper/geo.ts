@@ -0,0 +1,605 @@
+import { BazosListing } from './listing';
+
+export interface BazosGeoArea {
+	lat: number;
+	lon: number;
+	district: string;
+	region: string;
+}
+
+// [lat, lon, district, region code]
+type PostCodeArea = [number, number, string, string];
+
+const REGIONS: Record<string, Record<string, string>> = {
+	sk: {
+		BA: 'Bratislavský kraj',
+		TT: 'Trnavský kraj',
+		TN: 'Trenčiansky kraj',
+		NR: 'Nitriansky kraj',
+		ZA: 'Žilinský kraj',
+		BB: 'Banskobystrický kraj',
+		PO: 'Prešovský kraj',
+		KE: 'Košický kraj',
+	},
+	cz: {
+		PHA: 'Hlavní město Praha',
+		STC: 'Středočeský kraj',
+		JHC: 'Jihočeský kraj',
+		PLK: 'Plzeňský kraj',
+		KVK: 'Karlovarský kraj',
+		ULK: 'Ústecký kraj',
+		LBK: 'Liberecký kraj',
+		HKK: 'Královéhradecký kraj',
+		PAK: 'Pardubický kraj',
+		VYS: 'Kraj Vysočina',
+		JHM: 'Jihomoravský kraj',
+		OLK: 'Olomoucký kraj',
+		ZLK: 'Zlínský kraj',
+		MSK: 'Moravskoslezský kraj',
+	},
+};
+
+/**
+ * Offline post code areas keyed by the first three digits of the PSČ, which identify the
+ * delivery area. Coordinates are those of the area's main town, so distances are approximate
+ * (usually within 10-20 km), which is enough to compare pickup locations.
+ */
+const POST_CODE_AREAS: Record<string, Record<string, PostCodeArea>> = {
+	sk: {
+		'010': [49.223, 18.739, 'Žilina', 'ZA'],
+		'011': [49.223, 18.739, 'Žilina', 'ZA'],
+		'012': [49.223, 18.739, 'Žilina', 'ZA'],
+		'013': [49.223, 18.739, 'Žilina', 'ZA'],
+		'014': [49.224, 18.558, 'Bytča', 'ZA'],
+		'015': [49.089, 18.632, 'Žilina', 'ZA'],
+		'017': [49.121, 18.448, 'Považská Bystrica', 'TN'],
+		'018': [48.960, 18.170, 'Ilava', 'TN'],
+		'019': [48.999, 18.233, 'Ilava', 'TN'],
+		'020': [49.124, 18.326, 'Púchov', 'TN'],
+		'022': [49.438, 18.789, 'Čadca', 'ZA'],
+		'023': [49.400, 18.620, 'Čadca', 'ZA'],
+		'024': [49.300, 18.786, 'Kysucké Nové Mesto', 'ZA'],
+		'026': [49.209, 19.296, 'Dolný Kubín', 'ZA'],
+		'027': [49.330, 19.550, 'Tvrdošín', 'ZA'],
+		'028': [49.361, 19.613, 'Tvrdošín', 'ZA'],
+		'029': [49.407, 19.480, 'Námestovo', 'ZA'],
+		'031': [49.083, 19.612, 'Liptovský Mikuláš', 'ZA'],
+		'032': [49.083, 19.612, 'Liptovský Mikuláš', 'ZA'],
+		'033': [49.040, 19.720, 'Liptovský Mikuláš', 'ZA'],
+		'034': [49.075, 19.303, 'Ružomberok', 'ZA'],
+		'036': [49.066, 18.923, 'Martin', 'ZA'],
+		'038': [48.860, 18.860, 'Turčianske Teplice', 'ZA'],
+		'040': [48.716, 21.261, 'Košice', 'KE'],
+		'041': [48.716, 21.261, 'Košice', 'KE'],
+		'042': [48.716, 21.261, 'Košice', 'KE'],
+		'043': [48.716, 21.261, 'Košice', 'KE'],
+		'044': [48.700, 21.200, 'Košice-okolie', 'KE'],
+		'045': [48.614, 20.999, 'Košice-okolie', 'KE'],
+		'048': [48.661, 20.532, 'Rožňava', 'KE'],
+		'049': [48.683, 20.117, 'Revúca', 'BB'],
+		'050': [48.683, 20.117, 'Revúca', 'BB'],
+		'052': [48.944, 20.565, 'Spišská Nová Ves', 'KE'],
+		'053': [48.990, 20.650, 'Spišská Nová Ves', 'KE'],
+		'054': [49.025, 20.588, 'Levoča', 'PO'],
+		'055': [48.855, 20.937, 'Gelnica', 'KE'],
+		'056': [48.855, 20.937, 'Gelnica', 'KE'],
+		'058': [49.059, 20.297, 'Poprad', 'PO'],
+		'059': [49.059, 20.297, 'Poprad', 'PO'],
+		'060': [49.135, 20.431, 'Kežmarok', 'PO'],
+		'061': [49.380, 20.320, 'Kežmarok', 'PO'],
+		'062': [49.140, 20.220, 'Poprad', 'PO'],
+		'064': [49.298, 20.686, 'Stará Ľubovňa', 'PO'],
+		'065': [49.103, 21.098, 'Sabinov', 'PO'],
+		'066': [48.937, 21.906, 'Humenné', 'PO'],
+		'067': [48.988, 22.152, 'Snina', 'PO'],
+		'068': [49.270, 21.900, 'Medzilaborce', 'PO'],
+		'069': [48.988, 22.152, 'Snina', 'PO'],
+		'071': [48.755, 21.918, 'Michalovce', 'KE'],
+		'072': [48.755, 21.918, 'Michalovce', 'KE'],
+		'073': [48.745, 22.180, 'Sobrance', 'KE'],
+		'075': [48.627, 21.717, 'Trebišov', 'KE'],
+		'076': [48.420, 21.980, 'Trebišov', 'KE'],
+		'077': [48.550, 22.080, 'Michalovce', 'KE'],
+		'078': [48.700, 21.650, 'Trebišov', 'KE'],
+		'080': [48.998, 21.239, 'Prešov', 'PO'],
+		'081': [48.998, 21.239, 'Prešov', 'PO'],
+		'082': [48.998, 21.239, 'Prešov', 'PO'],
+		'083': [49.103, 21.098, 'Sabinov', 'PO'],
+		'085': [49.292, 21.276, 'Bardejov', 'PO'],
+		'086': [49.292, 21.276, 'Bardejov', 'PO'],
+		'087': [49.110, 21.520, 'Svidník', 'PO'],
+		'089': [49.306, 21.568, 'Svidník', 'PO'],
+		'090': [49.202, 21.651, 'Stropkov', 'PO'],
+		'091': [49.202, 21.651, 'Stropkov', 'PO'],
+		'093': [48.881, 21.684, 'Vranov nad Topľou', 'PO'],
+		'094': [49.030, 21.500, 'Vranov nad Topľou', 'PO'],
+		'811': [48.144, 17.108, 'Bratislava I', 'BA'],
+		'821': [48.150, 17.175, 'Bratislava II', 'BA'],
+		'831': [48.181, 17.130, 'Bratislava III', 'BA'],
+		'841': [48.175, 17.010, 'Bratislava IV', 'BA'],
+		'851': [48.105, 17.110, 'Bratislava V', 'BA'],
+		'900': [48.289, 17.266, 'Pezinok', 'BA'],
+		'901': [48.436, 17.018, 'Malacky', 'BA'],
+		'902': [48.289, 17.266, 'Pezinok', 'BA'],
+		'903': [48.219, 17.400, 'Senec', 'BA'],
+		'905': [48.679, 17.367, 'Senica', 'TT'],
+		'906': [48.679, 17.367, 'Senica', 'TT'],
+		'907': [48.757, 17.568, 'Myjava', 'TN'],
+		'908': [48.810, 17.163, 'Skalica', 'TT'],
+		'909': [48.845, 17.226, 'Skalica', 'TT'],
+		'911': [48.894, 18.044, 'Trenčín', 'TN'],
+		'912': [48.894, 18.044, 'Trenčín', 'TN'],
+		'913': [48.894, 18.044, 'Trenčín', 'TN'],
+		'914': [48.894, 18.044, 'Trenčín', 'TN'],
+		'915': [48.757, 17.831, 'Nové Mesto nad Váhom', 'TN'],
+		'916': [48.777, 17.696, 'Nové Mesto nad Váhom', 'TN'],
+		'917': [48.377, 17.588, 'Trnava', 'TT'],
+		'918': [48.377, 17.588, 'Trnava', 'TT'],
+		'919': [48.377, 17.588, 'Trnava', 'TT'],
+		'920': [48.430, 17.800, 'Hlohovec', 'TT'],
+		'921': [48.594, 17.827, 'Piešťany', 'TT'],
+		'922': [48.594, 17.827, 'Piešťany', 'TT'],
+		'924': [48.190, 17.727, 'Galanta', 'TT'],
+		'925': [48.200, 17.600, 'Galanta', 'TT'],
+		'926': [48.286, 17.735, 'Galanta', 'TT'],
+		'927': [48.151, 17.877, 'Šaľa', 'NR'],
+		'929': [47.993, 17.619, 'Dunajská Streda', 'TT'],
+		'930': [47.993, 17.619, 'Dunajská Streda', 'TT'],
+		'931': [48.030, 17.310, 'Dunajská Streda', 'TT'],
+		'932': [47.857, 17.769, 'Dunajská Streda', 'TT'],
+		'934': [48.215, 18.607, 'Levice', 'NR'],
+		'935': [48.215, 18.607, 'Levice', 'NR'],
+		'936': [48.070, 18.950, 'Levice', 'NR'],
+		'937': [47.950, 18.660, 'Levice', 'NR'],
+		'940': [47.986, 18.162, 'Nové Zámky', 'NR'],
+		'941': [47.986, 18.162, 'Nové Zámky', 'NR'],
+		'942': [48.090, 18.180, 'Nové Zámky', 'NR'],
+		'943': [47.800, 18.720, 'Nové Zámky', 'NR'],
+		'945': [47.763, 18.128, 'Komárno', 'NR'],
+		'946': [47.763, 18.128, 'Komárno', 'NR'],
+		'947': [47.870, 18.190, 'Komárno', 'NR'],
+		'949': [48.306, 18.086, 'Nitra', 'NR'],
+		'950': [48.306, 18.086, 'Nitra', 'NR'],
+		'951': [48.306, 18.086, 'Nitra', 'NR'],
+		'952': [48.243, 18.308, 'Nitra', 'NR'],
+		'953': [48.386, 18.397, 'Zlaté Moravce', 'NR'],
+		'955': [48.561, 18.177, 'Topoľčany', 'NR'],
+		'956': [48.561, 18.177, 'Topoľčany', 'NR'],
+		'957': [48.719, 18.258, 'Bánovce nad Bebravou', 'TN'],
+		'958': [48.628, 18.375, 'Partizánske', 'TN'],
+		'960': [48.578, 19.125, 'Zvolen', 'BB'],
+		'962': [48.578, 19.125, 'Zvolen', 'BB'],
+		'963': [48.352, 19.067, 'Krupina', 'BB'],
+		'965': [48.590, 18.853, 'Žiar nad Hronom', 'BB'],
+		'966': [48.484, 18.720, 'Žarnovica', 'BB'],
+		'967': [48.705, 18.917, 'Žiar nad Hronom', 'BB'],
+		'968': [48.425, 18.640, 'Žarnovica', 'BB'],
+		'969': [48.449, 18.910, 'Banská Štiavnica', 'BB'],
+		'971': [48.774, 18.627, 'Prievidza', 'TN'],
+		'972': [48.730, 18.760, 'Prievidza', 'TN'],
+		'974': [48.736, 19.146, 'Banská Bystrica', 'BB'],
+		'975': [48.736, 19.146, 'Banská Bystrica', 'BB'],
+		'976': [48.736, 19.146, 'Banská Bystrica', 'BB'],
+		'977': [48.806, 19.639, 'Brezno', 'BB'],
+		'979': [48.382, 20.022, 'Rimavská Sobota', 'BB'],
+		'980': [48.382, 20.022, 'Rimavská Sobota', 'BB'],
+		'981': [48.580, 19.950, 'Rimavská Sobota', 'BB'],
+		'982': [48.420, 20.330, 'Revúca', 'BB'],
+		'984': [48.331, 19.667, 'Lučenec', 'BB'],
+		'985': [48.331, 19.667, 'Lučenec', 'BB'],
+		'986': [48.270, 19.830, 'Lučenec', 'BB'],
+		'987': [48.430, 19.790, 'Poltár', 'BB'],
+		'990': [48.209, 19.350, 'Veľký Krtíš', 'BB'],
+		'991': [48.209, 19.350, 'Veľký Krtíš', 'BB'],
+		'992': [48.240, 19.330, 'Veľký Krtíš', 'BB'],
+	},
+	cz: {
+		'100': [50.070, 14.470, 'Praha 10', 'PHA'],
+		'101': [50.070, 14.470, 'Praha 10', 'PHA'],
+		'102': [50.060, 14.510, 'Praha 10', 'PHA'],
+		'104': [50.030, 14.530, 'Praha 10', 'PHA'],
+		'110': [50.087, 14.421, 'Praha 1', 'PHA'],
+		'120': [50.075, 14.435, 'Praha 2', 'PHA'],
+		'130': [50.083, 14.452, 'Praha 3', 'PHA'],
+		'140': [50.050, 14.440, 'Praha 4', 'PHA'],
+		'141': [50.040, 14.450, 'Praha 4', 'PHA'],
+		'142': [50.020, 14.450, 'Praha 4', 'PHA'],
+		'143': [50.000, 14.420, 'Praha 4', 'PHA'],
+		'147': [50.020, 14.410, 'Praha 4', 'PHA'],
+		'148': [50.030, 14.510, 'Praha 4', 'PHA'],
+		'149': [50.030, 14.500, 'Praha 4', 'PHA'],
+		'150': [50.070, 14.400, 'Praha 5', 'PHA'],
+		'152': [50.050, 14.380, 'Praha 5', 'PHA'],
+		'153': [50.000, 14.360, 'Praha 5', 'PHA'],
+		'154': [50.040, 14.320, 'Praha 5', 'PHA'],
+		'155': [50.050, 14.310, 'Praha 5', 'PHA'],
+		'156': [50.010, 14.390, 'Praha 5', 'PHA'],
+		'160': [50.100, 14.390, 'Praha 6', 'PHA'],
+		'161': [50.100, 14.330, 'Praha 6', 'PHA'],
+		'162': [50.090, 14.370, 'Praha 6', 'PHA'],
+		'163': [50.070, 14.320, 'Praha 6', 'PHA'],
+		'164': [50.120, 14.380, 'Praha 6', 'PHA'],
+		'165': [50.130, 14.370, 'Praha 6', 'PHA'],
+		'170': [50.100, 14.430, 'Praha 7', 'PHA'],
+		'180': [50.110, 14.470, 'Praha 8', 'PHA'],
+		'181': [50.130, 14.440, 'Praha 8', 'PHA'],
+		'182': [50.120, 14.480, 'Praha 8', 'PHA'],
+		'184': [50.140, 14.470, 'Praha 8', 'PHA'],
+		'190': [50.110, 14.500, 'Praha 9', 'PHA'],
+		'196': [50.140, 14.500, 'Praha 9', 'PHA'],
+		'197': [50.100, 14.550, 'Praha 9', 'PHA'],
+		'198': [50.100, 14.580, 'Praha 9', 'PHA'],
+		'199': [50.140, 14.540, 'Praha 9', 'PHA'],
+		'250': [50.187, 14.663, 'Praha-východ', 'STC'],
+		'251': [49.992, 14.654, 'Praha-východ', 'STC'],
+		'252': [49.960, 14.320, 'Praha-západ', 'STC'],
+		'253': [50.080, 14.260, 'Praha-západ', 'STC'],
+		'254': [49.880, 14.490, 'Praha-západ', 'STC'],
+		'256': [49.782, 14.687, 'Benešov', 'STC'],
+		'257': [49.706, 14.899, 'Benešov', 'STC'],
+		'258': [49.706, 14.899, 'Benešov', 'STC'],
+		'261': [49.690, 14.010, 'Příbram', 'STC'],
+		'262': [49.690, 14.010, 'Příbram', 'STC'],
+		'263': [49.780, 14.170, 'Příbram', 'STC'],
+		'264': [49.660, 14.427, 'Příbram', 'STC'],
+		'266': [49.964, 14.072, 'Beroun', 'STC'],
+		'267': [49.964, 14.072, 'Beroun', 'STC'],
+		'268': [49.836, 13.902, 'Beroun', 'STC'],
+		'269': [50.104, 13.733, 'Rakovník', 'STC'],
+		'270': [50.104, 13.733, 'Rakovník', 'STC'],
+		'271': [50.150, 13.900, 'Rakovník', 'STC'],
+		'272': [50.147, 14.103, 'Kladno', 'STC'],
+		'273': [50.147, 14.103, 'Kladno', 'STC'],
+		'274': [50.230, 14.087, 'Kladno', 'STC'],
+		'275': [50.351, 14.474, 'Mělník', 'STC'],
+		'276': [50.351, 14.474, 'Mělník', 'STC'],
+		'277': [50.259, 14.517, 'Mělník', 'STC'],
+		'278': [50.241, 14.311, 'Mělník', 'STC'],
+		'280': [50.028, 15.200, 'Kolín', 'STC'],
+		'281': [50.028, 15.200, 'Kolín', 'STC'],
+		'282': [50.074, 14.861, 'Kolín', 'STC'],
+		'284': [49.948, 15.268, 'Kutná Hora', 'STC'],
+		'285': [49.948, 15.268, 'Kutná Hora', 'STC'],
+		'286': [49.910, 15.390, 'Kutná Hora', 'STC'],
+		'288': [50.186, 15.042, 'Nymburk', 'STC'],
+		'289': [50.186, 15.042, 'Nymburk', 'STC'],
+		'290': [50.142, 15.119, 'Nymburk', 'STC'],
+		'293': [50.411, 14.903, 'Mladá Boleslav', 'STC'],
+		'294': [50.411, 14.903, 'Mladá Boleslav', 'STC'],
+		'295': [50.411, 14.903, 'Mladá Boleslav', 'STC'],
+		'301': [49.747, 13.377, 'Plzeň-město', 'PLK'],
+		'312': [49.747, 13.377, 'Plzeň-město', 'PLK'],
+		'318': [49.747, 13.377, 'Plzeň-město', 'PLK'],
+		'323': [49.747, 13.377, 'Plzeň-město', 'PLK'],
+		'326': [49.747, 13.377, 'Plzeň-město', 'PLK'],
+		'330': [49.800, 13.300, 'Plzeň-sever', 'PLK'],
+		'332': [49.640, 13.400, 'Plzeň-jih', 'PLK'],
+		'333': [49.640, 13.160, 'Plzeň-jih', 'PLK'],
+		'334': [49.573, 13.333, 'Plzeň-jih', 'PLK'],
+		'335': [49.486, 13.580, 'Plzeň-jih', 'PLK'],
+		'336': [49.580, 13.540, 'Plzeň-jih', 'PLK'],
+		'337': [49.743, 13.595, 'Rokycany', 'PLK'],
+		'338': [49.743, 13.595, 'Rokycany', 'PLK'],
+		'339': [49.395, 13.295, 'Klatovy', 'PLK'],
+		'340': [49.395, 13.295, 'Klatovy', 'PLK'],
+		'341': [49.320, 13.700, 'Klatovy', 'PLK'],
+		'342': [49.231, 13.520, 'Klatovy', 'PLK'],
+		'344': [49.440, 12.929, 'Domažlice', 'PLK'],
+		'345': [49.440, 12.929, 'Domažlice', 'PLK'],
+		'346': [49.530, 12.940, 'Domažlice', 'PLK'],
+		'347': [49.798, 12.636, 'Tachov', 'PLK'],
+		'348': [49.798, 12.636, 'Tachov', 'PLK'],
+		'349': [49.753, 12.999, 'Tachov', 'PLK'],
+		'350': [50.080, 12.374, 'Cheb', 'KVK'],
+		'351': [50.120, 12.350, 'Cheb', 'KVK'],
+		'352': [50.224, 12.195, 'Cheb', 'KVK'],
+		'353': [49.965, 12.701, 'Cheb', 'KVK'],
+		'354': [50.080, 12.374, 'Cheb', 'KVK'],
+		'356': [50.181, 12.640, 'Sokolov', 'KVK'],
+		'357': [50.181, 12.640, 'Sokolov', 'KVK'],
+		'358': [50.320, 12.520, 'Sokolov', 'KVK'],
+		'360': [50.231, 12.872, 'Karlovy Vary', 'KVK'],
+		'362': [50.231, 12.872, 'Karlovy Vary', 'KVK'],
+		'363': [50.306, 12.939, 'Karlovy Vary', 'KVK'],
+		'364': [50.060, 12.990, 'Karlovy Vary', 'KVK'],
+		'370': [48.975, 14.474, 'České Budějovice', 'JHC'],
+		'373': [48.975, 14.474, 'České Budějovice', 'JHC'],
+		'374': [48.975, 14.474, 'České Budějovice', 'JHC'],
+		'375': [49.220, 14.420, 'České Budějovice', 'JHC'],
+		'377': [49.144, 15.003, 'Jindřichův Hradec', 'JHC'],
+		'378': [49.144, 15.003, 'Jindřichův Hradec', 'JHC'],
+		'379': [49.004, 14.771, 'Jindřichův Hradec', 'JHC'],
+		'380': [49.081, 15.437, 'Jindřichův Hradec', 'JHC'],
+		'381': [48.811, 14.315, 'Český Krumlov', 'JHC'],
+		'382': [48.740, 14.500, 'Český Krumlov', 'JHC'],
+		'383': [49.013, 13.997, 'Prachatice', 'JHC'],
+		'384': [49.053, 13.783, 'Prachatice', 'JHC'],
+		'385': [49.053, 13.783, 'Prachatice', 'JHC'],
+		'386': [49.261, 13.902, 'Strakonice', 'JHC'],
+		'387': [49.261, 13.902, 'Strakonice', 'JHC'],
+		'388': [49.425, 13.882, 'Strakonice', 'JHC'],
+		'389': [49.148, 14.175, 'Strakonice', 'JHC'],
+		'390': [49.414, 14.658, 'Tábor', 'JHC'],
+		'391': [49.414, 14.658, 'Tábor', 'JHC'],
+		'392': [49.260, 14.720, 'Tábor', 'JHC'],
+		'393': [49.431, 15.223, 'Pelhřimov', 'VYS'],
+		'394': [49.431, 15.223, 'Pelhřimov', 'VYS'],
+		'395': [49.470, 15.000, 'Pelhřimov', 'VYS'],
+		'397': [49.309, 14.148, 'Písek', 'JHC'],
+		'398': [49.309, 14.148, 'Písek', 'JHC'],
+		'399': [49.451, 14.360, 'Písek', 'JHC'],
+		'400': [50.661, 14.032, 'Ústí nad Labem', 'ULK'],
+		'403': [50.661, 14.032, 'Ústí nad Labem', 'ULK'],
+		'405': [50.773, 14.196, 'Děčín', 'ULK'],
+		'407': [50.910, 14.600, 'Děčín', 'ULK'],
+		'408': [50.952, 14.557, 'Děčín', 'ULK'],
+		'410': [50.534, 14.132, 'Litoměřice', 'ULK'],
+		'411': [50.534, 14.132, 'Litoměřice', 'ULK'],
+		'412': [50.534, 14.132, 'Litoměřice', 'ULK'],
+		'413': [50.425, 14.260, 'Litoměřice', 'ULK'],
+		'415': [50.640, 13.824, 'Teplice', 'ULK'],
+		'417': [50.640, 13.824, 'Teplice', 'ULK'],
+		'418': [50.548, 13.776, 'Teplice', 'ULK'],
+		'430': [50.461, 13.418, 'Chomutov', 'ULK'],
+		'431': [50.461, 13.418, 'Chomutov', 'ULK'],
+		'432': [50.376, 13.271, 'Chomutov', 'ULK'],
+		'434': [50.503, 13.636, 'Most', 'ULK'],
+		'435': [50.503, 13.636, 'Most', 'ULK'],
+		'436': [50.600, 13.610, 'Most', 'ULK'],
+		'438': [50.327, 13.546, 'Louny', 'ULK'],
+		'439': [50.354, 13.797, 'Louny', 'ULK'],
+		'440': [50.354, 13.797, 'Louny', 'ULK'],
+		'441': [50.354, 13.797, 'Louny', 'ULK'],
+		'460': [50.767, 15.056, 'Liberec', 'LBK'],
+		'463': [50.767, 15.056, 'Liberec', 'LBK'],
+		'464': [50.921, 15.080, 'Liberec', 'LBK'],
+		'466': [50.724, 15.171, 'Jablonec nad Nisou', 'LBK'],
+		'468': [50.740, 15.310, 'Jablonec nad Nisou', 'LBK'],
+		'470': [50.686, 14.538, 'Česká Lípa', 'LBK'],
+		'471': [50.686, 14.538, 'Česká Lípa', 'LBK'],
+		'472': [50.565, 14.655, 'Česká Lípa', 'LBK'],
+		'473': [50.758, 14.555, 'Česká Lípa', 'LBK'],
+		'500': [50.209, 15.833, 'Hradec Králové', 'HKK'],
+		'503': [50.209, 15.833, 'Hradec Králové', 'HKK'],
+		'504': [50.241, 15.490, 'Hradec Králové', 'HKK'],
+		'505': [50.366, 15.632, 'Jičín', 'HKK'],
+		'506': [50.437, 15.352, 'Jičín', 'HKK'],
+		'507': [50.437, 15.352, 'Jičín', 'HKK'],
+		'508': [50.366, 15.632, 'Jičín', 'HKK'],
+		'509': [50.494, 15.515, 'Jičín', 'HKK'],
+		'511': [50.587, 15.157, 'Semily', 'LBK'],
+		'512': [50.602, 15.336, 'Semily', 'LBK'],
+		'513': [50.602, 15.336, 'Semily', 'LBK'],
+		'514': [50.609, 15.507, 'Semily', 'LBK'],
+		'516': [50.163, 16.275, 'Rychnov nad Kněžnou', 'HKK'],
+		'517': [50.163, 16.275, 'Rychnov nad Kněžnou', 'HKK'],
+		'518': [50.292, 16.160, 'Rychnov nad Kněžnou', 'HKK'],
+		'530': [50.034, 15.781, 'Pardubice', 'PAK'],
+		'533': [50.034, 15.781, 'Pardubice', 'PAK'],
+		'534': [50.066, 15.986, 'Pardubice', 'PAK'],
+		'535': [50.040, 15.560, 'Pardubice', 'PAK'],
+		'537': [49.951, 15.795, 'Chrudim', 'PAK'],
+		'538': [49.951, 15.795, 'Chrudim', 'PAK'],
+		'539': [49.762, 15.907, 'Chrudim', 'PAK'],
+		'541': [50.561, 15.913, 'Trutnov', 'HKK'],
+		'542': [50.561, 15.913, 'Trutnov', 'HKK'],
+		'543': [50.627, 15.609, 'Trutnov', 'HKK'],
+		'544': [50.432, 15.814, 'Trutnov', 'HKK'],
+		'547': [50.417, 16.163, 'Náchod', 'HKK'],
+		'549': [50.344, 16.152, 'Náchod', 'HKK'],
+		'550': [50.586, 16.332, 'Náchod', 'HKK'],
+		'551': [50.356, 15.921, 'Náchod', 'HKK'],
+		'552': [50.356, 15.921, 'Náchod', 'HKK'],
+		'560': [49.904, 16.444, 'Ústí nad Orlicí', 'PAK'],
+		'561': [50.086, 16.467, 'Ústí nad Orlicí', 'PAK'],
+		'562': [49.974, 16.394, 'Ústí nad Orlicí', 'PAK'],
+		'563': [49.912, 16.612, 'Ústí nad Orlicí', 'PAK'],
+		'564': [50.086, 16.467, 'Ústí nad Orlicí', 'PAK'],
+		'565': [49.997, 16.223, 'Ústí nad Orlicí', 'PAK'],
+		'566': [49.953, 16.162, 'Ústí nad Orlicí', 'PAK'],
+		'568': [49.756, 16.468, 'Svitavy', 'PAK'],
+		'569': [49.715, 16.266, 'Svitavy', 'PAK'],
+		'570': [49.868, 16.313, 'Svitavy', 'PAK'],
+		'571': [49.758, 16.664, 'Svitavy', 'PAK'],
+		'572': [49.715, 16.266, 'Svitavy', 'PAK'],
+		'580': [49.607, 15.580, 'Havlíčkův Brod', 'VYS'],
+		'582': [49.607, 15.580, 'Havlíčkův Brod', 'VYS'],
+		'583': [49.721, 15.670, 'Havlíčkův Brod', 'VYS'],
+		'584': [49.695, 15.278, 'Havlíčkův Brod', 'VYS'],
+		'585': [49.668, 15.404, 'Havlíčkův Brod', 'VYS'],
+		'586': [49.396, 15.591, 'Jihlava', 'VYS'],
+		'588': [49.396, 15.591, 'Jihlava', 'VYS'],
+		'589': [49.290, 15.480, 'Jihlava', 'VYS'],
+		'591': [49.563, 15.939, 'Žďár nad Sázavou', 'VYS'],
+		'592': [49.561, 16.074, 'Žďár nad Sázavou', 'VYS'],
+		'593': [49.523, 16.261, 'Žďár nad Sázavou', 'VYS'],
+		'594': [49.355, 16.012, 'Žďár nad Sázavou', 'VYS'],
+		'595': [49.289, 16.226, 'Žďár nad Sázavou', 'VYS'],
+		'602': [49.195, 16.608, 'Brno-město', 'JHM'],
+		'603': [49.195, 16.608, 'Brno-město', 'JHM'],
+		'612': [49.210, 16.590, 'Brno-město', 'JHM'],
+		'613': [49.210, 16.620, 'Brno-město', 'JHM'],
+		'614': [49.210, 16.640, 'Brno-město', 'JHM'],
+		'615': [49.200, 16.660, 'Brno-město', 'JHM'],
+		'616': [49.210, 16.560, 'Brno-město', 'JHM'],
+		'617': [49.180, 16.620, 'Brno-město', 'JHM'],
+		'618': [49.190, 16.680, 'Brno-město', 'JHM'],
+		'619': [49.170, 16.590, 'Brno-město', 'JHM'],
+		'620': [49.150, 16.700, 'Brno-město', 'JHM'],
+		'621': [49.240, 16.580, 'Brno-město', 'JHM'],
+		'623': [49.180, 16.560, 'Brno-město', 'JHM'],
+		'624': [49.220, 16.520, 'Brno-město', 'JHM'],
+		'625': [49.170, 16.540, 'Brno-město', 'JHM'],
+		'627': [49.180, 16.700, 'Brno-město', 'JHM'],
+		'628': [49.220, 16.680, 'Brno-město', 'JHM'],
+		'635': [49.210, 16.500, 'Brno-město', 'JHM'],
+		'638': [49.230, 16.620, 'Brno-město', 'JHM'],
+		'639': [49.180, 16.590, 'Brno-město', 'JHM'],
+		'640': [49.240, 16.560, 'Brno-venkov', 'JHM'],
+		'664': [49.200, 16.450, 'Brno-venkov', 'JHM'],
+		'665': [49.182, 16.388, 'Brno-venkov', 'JHM'],
+		'666': [49.349, 16.424, 'Brno-venkov', 'JHM'],
+		'667': [49.039, 16.619, 'Brno-venkov', 'JHM'],
+		'669': [48.856, 16.049, 'Znojmo', 'JHM'],
+		'671': [48.856, 16.049, 'Znojmo', 'JHM'],
+		'672': [49.049, 16.311, 'Znojmo', 'JHM'],
+		'674': [49.215, 15.882, 'Třebíč', 'VYS'],
+		'675': [49.215, 15.882, 'Třebíč', 'VYS'],
+		'676': [49.052, 15.809, 'Třebíč', 'VYS'],
+		'678': [49.363, 16.644, 'Blansko', 'JHM'],
+		'679': [49.547, 16.573, 'Blansko', 'JHM'],
+		'680': [49.488, 16.660, 'Blansko', 'JHM'],
+		'682': [49.278, 16.999, 'Vyškov', 'JHM'],
+		'683': [49.278, 16.999, 'Vyškov', 'JHM'],
+		'684': [49.153, 16.876, 'Vyškov', 'JHM'],
+		'685': [49.149, 17.002, 'Vyškov', 'JHM'],
+		'686': [49.070, 17.460, 'Uherské Hradiště', 'ZLK'],
+		'687': [49.070, 17.460, 'Uherské Hradiště', 'ZLK'],
+		'688': [49.025, 17.647, 'Uherské Hradiště', 'ZLK'],
+		'690': [48.759, 16.882, 'Břeclav', 'JHM'],
+		'691': [48.759, 16.882, 'Břeclav', 'JHM'],
+		'692': [48.806, 16.638, 'Břeclav', 'JHM'],
+		'693': [48.941, 16.737, 'Břeclav', 'JHM'],
+		'695': [48.849, 17.132, 'Hodonín', 'JHM'],
+		'696': [48.849, 17.132, 'Hodonín', 'JHM'],
+		'697': [49.010, 17.123, 'Hodonín', 'JHM'],
+		'698': [48.954, 17.381, 'Hodonín', 'JHM'],
+		'700': [49.835, 18.292, 'Ostrava-město', 'MSK'],
+		'702': [49.835, 18.292, 'Ostrava-město', 'MSK'],
+		'703': [49.810, 18.240, 'Ostrava-město', 'MSK'],
+		'708': [49.830, 18.160, 'Ostrava-město', 'MSK'],
+		'709': [49.810, 18.260, 'Ostrava-město', 'MSK'],
+		'710': [49.850, 18.280, 'Ostrava-město', 'MSK'],
+		'711': [49.880, 18.300, 'Ostrava-město', 'MSK'],
+		'712': [49.870, 18.320, 'Ostrava-město', 'MSK'],
+		'713': [49.850, 18.330, 'Ostrava-město', 'MSK'],
+		'717': [49.870, 18.220, 'Ostrava-město', 'MSK'],
+		'718': [49.880, 18.270, 'Ostrava-město', 'MSK'],
+		'719': [49.890, 18.200, 'Ostrava-město', 'MSK'],
+		'720': [49.790, 18.250, 'Ostrava-město', 'MSK'],
+		'721': [49.800, 18.180, 'Ostrava-město', 'MSK'],
+		'722': [49.810, 18.200, 'Ostrava-město', 'MSK'],
+		'723': [49.780, 18.190, 'Ostrava-město', 'MSK'],
+		'725': [49.900, 18.190, 'Ostrava-město', 'MSK'],
+		'733': [49.854, 18.542, 'Karviná', 'MSK'],
+		'734': [49.854, 18.542, 'Karviná', 'MSK'],
+		'735': [49.904, 18.357, 'Karviná', 'MSK'],
+		'736': [49.780, 18.431, 'Karviná', 'MSK'],
+		'737': [49.746, 18.626, 'Karviná', 'MSK'],
+		'738': [49.688, 18.350, 'Frýdek-Místek', 'MSK'],
+		'739': [49.677, 18.671, 'Frýdek-Místek', 'MSK'],
+		'741': [49.594, 18.010, 'Nový Jičín', 'MSK'],
+		'742': [49.574, 18.145, 'Nový Jičín', 'MSK'],
+		'743': [49.720, 17.990, 'Nový Jičín', 'MSK'],
+		'744': [49.548, 18.211, 'Nový Jičín', 'MSK'],
+		'746': [49.938, 17.903, 'Opava', 'MSK'],
+		'747': [49.938, 17.903, 'Opava', 'MSK'],
+		'748': [49.898, 18.190, 'Opava', 'MSK'],
+		'749': [49.774, 17.749, 'Opava', 'MSK'],
+		'750': [49.455, 17.451, 'Přerov', 'OLK'],
+		'751': [49.455, 17.451, 'Přerov', 'OLK'],
+		'752': [49.548, 17.735, 'Přerov', 'OLK'],
+		'753': [49.548, 17.735, 'Přerov', 'OLK'],
+		'755': [49.339, 17.996, 'Vsetín', 'ZLK'],
+		'756': [49.458, 18.143, 'Vsetín', 'ZLK'],
+		'757': [49.472, 17.971, 'Vsetín', 'ZLK'],
+		'760': [49.226, 17.667, 'Zlín', 'ZLK'],
+		'761': [49.226, 17.667, 'Zlín', 'ZLK'],
+		'762': [49.226, 17.667, 'Zlín', 'ZLK'],
+		'763': [49.100, 17.757, 'Zlín', 'ZLK'],
+		'765': [49.210, 17.531, 'Zlín', 'ZLK'],
+		'766': [49.141, 18.007, 'Zlín', 'ZLK'],
+		'767': [49.298, 17.393, 'Kroměříž', 'ZLK'],
+		'768': [49.399, 17.674, 'Kroměříž', 'ZLK'],
+		'769': [49.333, 17.578, 'Kroměříž', 'ZLK'],
+		'771': [49.594, 17.251, 'Olomouc', 'OLK'],
+		'772': [49.594, 17.251, 'Olomouc', 'OLK'],
+		'779': [49.594, 17.251, 'Olomouc', 'OLK'],
+		'783': [49.771, 17.122, 'Olomouc', 'OLK'],
+		'784': [49.701, 17.076, 'Olomouc', 'OLK'],
+		'785': [49.730, 17.299, 'Olomouc', 'OLK'],
+		'787': [49.965, 16.971, 'Šumperk', 'OLK'],
+		'788': [49.965, 16.971, 'Šumperk', 'OLK'],
+		'789': [49.882, 16.872, 'Šumperk', 'OLK'],
+		'790': [50.229, 17.205, 'Jeseník', 'OLK'],
+		'792': [49.988, 17.464, 'Bruntál', 'MSK'],
+		'793': [49.988, 17.464, 'Bruntál', 'MSK'],
+		'794': [50.090, 17.704, 'Bruntál', 'MSK'],
+		'795': [49.932, 17.272, 'Bruntál', 'MSK'],
+		'796': [49.472, 17.111, 'Prostějov', 'OLK'],
+		'797': [49.472, 17.111, 'Prostějov', 'OLK'],
+		'798': [49.472, 17.111, 'Prostějov', 'OLK'],
+	},
+};
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Looks up the area of a post code like "811 01" or "11000". Unknown prefixes fall back to the
+ * nearest known prefix with the same first two digits, which is normally a neighbouring area.
+ */
+export function lookupPostCode(postCode: string, country: string): BazosGeoArea | null {
+	const areas = POST_CODE_AREAS[country];
+	const digits = postCode.replace(/\D/g, '');
+	if (!areas || digits.length !== 5) {
+		return null;
+	}
+
+	const prefix = digits.slice(0, 3);
+	let area = areas[prefix];
+	if (!area) {
+		const nearest = Object.keys(areas)
+			.filter((key) => key.startsWith(prefix.slice(0, 2)))
+			.sort((a, b) => Math.abs(Number(a) - Number(prefix)) - Math.abs(Number(b) - Number(prefix)))[0];
+		area = areas[nearest];
+	}
+	if (!area) {
+		return null;
+	}
+
+	const [lat, lon, district, region] = area;
+	return { lat, lon, district, region: REGIONS[country][region] };
+}
+
+// Fields added to every listing; null when the post code is missing or unknown
+export function getGeoFields(postCode: string, country: string) {
+	const area = postCode ? lookupPostCode(postCode, country) : null;
+	return {
+		lat: area?.lat ?? null,
+		lon: area?.lon ?? null,
+		district: area?.district ?? null,
+		region: area?.region ?? null,
+	};
+}
+
+// Great-circle distance, rounded to 0.1 km
+export function distanceKm(from: { lat: number; lon: number }, to: { lat: number; lon: number }): number {
+	const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+	const dLat = toRadians(to.lat - from.lat);
+	const dLon = toRadians(to.lon - from.lon);
+	const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLon / 2) ** 2;
+	return Math.round(2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a)) * 10) / 10;
+}
+
+/**
+ * Adds the distance from the search origin to listings that have coordinates; the origin is
+ * the post code of the search on the given domain. Without a known origin distanceKm is null.
+ */
+export function addDistances(listings: BazosListing[], originPostCode: string, originCountry: string) {
+	const origin = originPostCode ? lookupPostCode(originPostCode, originCountry) : null;
+	for (const listing of listings) {
+		listing.distanceKm = origin && listing.lat !== null && listing.lon !== null ? distanceKm(origin, { lat: listing.lat, lon: listing.lon }) : null;
+	}
+}
+
+// Nearest first; listings without a distance keep their order at the end
+export function sortByDistance(listings: BazosListing[]) {
+	listings.sort((a, b) => {
+		const first = a.distanceKm ?? null;
+		const second = b.distanceKm ?? null;
+		if (first === null || second === null) {
+			return (first === null ? 1 : 0) - (second === null ? 1 : 0);
+		}
+		return first - second;
+	});
+}
@@ -0,0 +1,219 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { IDataObject, INodeProperties } from 'n8n-workflow';
+
+import { BazosListing } from './listing';
+
+export interface BazosPricePoint {
+	price: number | null;
+	currency: string | null;
+	date: string;
+}
+
+export interface BazosHistoryEntry {
+	id: number;
+	link: string;
+	title: string;
+	price: number | null;
+	currency: string | null;
+	views: number;
+	added: string;
+	firstSeen: string;
+	lastSeen: string;
+	// One point per price change, the first one is the price when the listing was first seen
+	priceHistory: BazosPricePoint[];
+}
+
+export interface BazosPriceHistory {
+	listings: Record<string, BazosHistoryEntry>;
+	// Listing keys returned by the last run of each search that covered all results, to detect disappeared listings
+	searches: Record<string, string[]>;
+}
+
+// Keep the store bounded: the least recently seen listings are dropped first
+const MAX_LISTINGS = 5000;
+const MAX_PRICE_POINTS = 50;
+
+export const priceHistoryDescription: INodeProperties[] = [
+	{
+		displayName: 'Track Price History',
+		name: 'priceHistory',
+		type: 'options',
+		options: [
+			{
+				name: 'Off',
+				value: 'off',
+			},
+			{
+				name: 'In Workflow Static Data',
+				value: 'staticData',
+				description: 'Stored with the workflow; only kept for executions of an active workflow, not for manual runs',
+			},
+			{
+				name: 'In a JSON File',
+				value: 'file',
+				description: 'Stored in a file on the n8n server, so it is also kept for manual runs',
+			},
+		],
+		default: 'off',
+		description: 'Whether to remember every listing and add priceChanged, previousPrice, priceHistory, firstSeen and lastSeen to the output',
+		displayOptions: {
+			show: {
+				operation: ['search', 'searchMany'],
+			},
+		},
+	},
+	{
+		displayName: 'History File Path',
+		name: 'historyFilePath',
+		type: 'string',
+		default: '',
+		placeholder: 'e.g., /home/node/.n8n/bazos-history.json',
+		description: 'JSON file to keep the price history in; it is created when it does not exist',
+		required: true,
+		displayOptions: {
+			show: {
+				operation: ['search', 'searchMany'],
+				priceHistory: ['file'],
+			},
+		},
+	},
+	{
+		displayName: 'Emit Disappeared Listings',
+		name: 'emitDisappeared',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to report listings that were returned by the previous run of the same search but are missing now (sold or deleted)',
+		displayOptions: {
+			show: {
+				operation: ['search', 'searchMany'],
+				priceHistory: ['staticData', 'file'],
+			},
+		},
+	},
+];
+
+// Listings without an image have id 0, so fall back to the link as the key
+export const historyKey = (listing: { id: number; link: string }) => (listing.id ? String(listing.id) : listing.link);
+
+const emptyHistory = (): BazosPriceHistory => ({ listings: {}, searches: {} });
+
+// The static data object is saved by n8n after the execution, so the history is changed in place
+export function getStaticDataHistory(staticData: IDataObject): BazosPriceHistory {
+	if (!staticData.priceHistory) {
+		staticData.priceHistory = emptyHistory() as unknown as IDataObject;
+	}
+	return staticData.priceHistory as unknown as BazosPriceHistory;
+}
+
+export async function loadHistoryFile(path: string): Promise<BazosPriceHistory> {
+	try {
+		const history = JSON.parse(await fs.readFile(path, 'utf8'));
+		return { ...emptyHistory(), ...history };
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+			return emptyHistory();
+		}
+		throw new Error(`Could not read the price history file ${path}: ${(error as Error).message}`);
+	}
+}
+
+// Writes to a temporary file first, so an interrupted run cannot leave a truncated history behind
+export async function saveHistoryFile(path: string, history: BazosPriceHistory): Promise<void> {
+	await fs.mkdir(dirname(path), { recursive: true });
+	await fs.writeFile(`${path}.tmp`, JSON.stringify(history));
+	await fs.rename(`${path}.tmp`, path);
+}
+
+/**
+ * Whether a run returned every result of its search, which is needed to tell that a missing listing
+ * is gone. A run cut by Results Limit, Published in Last (days) or the filters just did not reach it.
+ */
+export function returnedAllResults(totalFound: number, totalReturned: number, publishedDays: number | null): boolean {
+	return totalReturned === totalFound && !(publishedDays !== null && publishedDays > 0);
+}
+
+/**
+ * Records the listings of one run of a search and adds the change fields to them. Returns the
+ * listings the previous complete run of the same search returned that are missing now. A run is
+ * complete only when it returned every result of the search; runs that stopped early or were cut
+ * by a limit (complete = false) never report disappeared listings.
+ */
+export function trackPriceHistory(history: BazosPriceHistory, searchKey: string, listings: BazosListing[], complete: boolean, now: Date = new Date()): BazosHistoryEntry[] {
+	const timestamp = now.toISOString();
+	const currentKeys = listings.map(historyKey);
+
+	for (const [index, listing] of listings.entries()) {
+		const key = currentKeys[index];
+		const entry = history.listings[key];
+		const point = { price: listing.price, currency: listing.currency, date: timestamp };
+
+		if (!entry) {
+			history.listings[key] = {
+				id: listing.id,
+				link: listing.link,
+				title: listing.title,
+				price: listing.price,
+				currency: listing.currency,
+				views: listing.views,
+				added: listing.added,
+				firstSeen: timestamp,
+				lastSeen: timestamp,
+				priceHistory: [point],
+			};
+			Object.assign(listing, { priceChanged: false, previousPrice: null, priceHistory: [point], firstSeen: timestamp, lastSeen: timestamp });
+			continue;
+		}
+
+		const previousPrice = entry.price;
+		const priceChanged = previousPrice !== listing.price;
+		if (priceChanged) {
+			entry.priceHistory = [...entry.priceHistory, point].slice(-MAX_PRICE_POINTS);
+		}
+		Object.assign(entry, {
+			title: listing.title,
+			price: listing.price,
+			currency: listing.currency,
+			views: listing.views,
+			added: listing.added,
+			lastSeen: timestamp,
+		});
+		Object.assign(listing, {
+			priceChanged,
+			previousPrice,
+			priceHistory: entry.priceHistory,
+			firstSeen: entry.firstSeen,
+			lastSeen: timestamp,
+		});
+	}
+
+	const previousKeys = history.searches[searchKey] ?? [];
+	const current = new Set(currentKeys);
+	const disappeared = complete
+		? previousKeys.filter((key) => !current.has(key) && history.listings[key]).map((key) => history.listings[key])
+		: [];
+	// An incomplete run did not see every listing, so it only adds to the known ones
+	history.searches[searchKey] = complete ? currentKeys : [...new Set([...currentKeys, ...previousKeys])];
+
+	pruneHistory(history);
+
+	return disappeared;
+}
+
+function pruneHistory(history: BazosPriceHistory) {
+	const keys = Object.keys(history.listings);
+	if (keys.length <= MAX_LISTINGS) {
+		return;
+	}
+	// ISO timestamps sort as strings
+	const dropped = keys
+		.sort((a, b) => history.listings[a].lastSeen.localeCompare(history.listings[b].lastSeen))
+		.slice(0, keys.length - MAX_LISTINGS);
+	for (const key of dropped) {
+		delete history.listings[key];
+	}
+	const droppedKeys = new Set(dropped);
+	for (const searchKey of Object.keys(history.searches)) {
+		history.searches[searchKey] = history.searches[searchKey].filter((key) => !droppedKeys.has(key));
+	}
+}
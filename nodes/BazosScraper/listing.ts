@@ -0,0 +1,128 @@
+import { INodeProperties } from 'n8n-workflow';
+
+import { BazosPricePoint } from './history';
+import { PriceType } from './price';
+
+/**
+ * A listing as returned by the search, seller and trigger operations. The fields from the detail
+ * page and the ones added by later stages are only present when that stage ran, e.g. name and
+ * phone only with Fetch Full Descriptions or Fetch Seller Contact.
+ */
+export interface BazosListing {
+	// 0 for listings without an image, the ID is read from the image file name
+	id: number;
+	title: string;
+	link: string;
+	// Full-size cover image and its position in the gallery (1 for the first image)
+	imgLink: string;
+	imageOrder: number;
+	images: string[];
+	// Kept for compatibility: addedDate, or the raw digits when the date could not be parsed
+	added: string;
+	addedDate: string | null;
+	addedAt: string | null;
+	isTop: boolean;
+	description: string;
+	price: number | null;
+	currency: string | null;
+	priceType: PriceType;
+	location: string;
+	postCode: string;
+	lat: number | null;
+	lon: number | null;
+	district: string | null;
+	region: string | null;
+	views: number;
+
+	// From the detail page
+	fullDescription?: string;
+	name?: string;
+	phone?: string;
+	hasPhone?: boolean;
+	email?: string;
+	sellerId?: string;
+	sellerUrl?: string;
+	detailError?: string;
+
+	// Added by the search
+	category?: string | null;
+	subcategory?: string | null;
+	country?: string;
+	domain?: string;
+	matchedQueries?: string[];
+	distanceKm?: number | null;
+	convertedPrice?: number | null;
+	convertedCurrency?: string;
+
+	// Price history
+	priceChanged?: boolean;
+	previousPrice?: number | null;
+	priceHistory?: BazosPricePoint[];
+	firstSeen?: string;
+	lastSeen?: string;
+
+	// Duplicates; listings without an ID are identified by their link
+	fingerprint?: string;
+	coverImageHash?: string;
+	groupId?: number | string;
+	duplicateOf?: number | string | null;
+	duplicateIds?: Array<number | string>;
+
+	// Names of the downloaded images in the single item output
+	binaryProperties?: string[];
+}
+
+// Which listing fields each option of Fields to Return stands for
+export const LISTING_FIELD_SETS: Record<string, Array<keyof BazosListing>> = {
+	id: ['id'],
+	title: ['title'],
+	link: ['link'],
+	description: ['description', 'fullDescription'],
+	price: ['price', 'currency', 'priceType', 'convertedPrice', 'convertedCurrency'],
+	images: ['imgLink', 'imageOrder', 'images', 'coverImageHash'],
+	contact: ['name', 'phone', 'hasPhone', 'email', 'sellerId', 'sellerUrl'],
+	location: ['location', 'postCode', 'lat', 'lon', 'district', 'region', 'distanceKm'],
+	stats: ['views', 'added', 'addedDate', 'addedAt', 'isTop'],
+	search: ['category', 'subcategory', 'country', 'domain', 'matchedQueries'],
+	history: ['priceChanged', 'previousPrice', 'priceHistory', 'firstSeen', 'lastSeen'],
+	duplicates: ['fingerprint', 'groupId', 'duplicateOf', 'duplicateIds'],
+};
+
+// Errors and binary references are always returned, without them the output cannot be interpreted
+const ALWAYS_RETURNED: Array<keyof BazosListing> = ['detailError', 'binaryProperties'];
+
+export const fieldsToReturnDescription: INodeProperties = {
+	displayName: 'Fields to Return',
+	name: 'fieldsToReturn',
+	type: 'multiOptions',
+	options: [
+		{ name: 'Contact', value: 'contact', description: 'Name, phone, hasPhone, email, sellerId, sellerUrl' },
+		{ name: 'Description', value: 'description', description: 'Description and fullDescription' },
+		{ name: 'Duplicates', value: 'duplicates', description: 'Fingerprint, groupId, duplicateOf, duplicateIds' },
+		{ name: 'ID', value: 'id' },
+		{ name: 'Images', value: 'images', description: 'Cover image, image order and the gallery' },
+		{ name: 'Link', value: 'link' },
+		{ name: 'Location', value: 'location', description: 'Location, post code, coordinates, district, region, distance' },
+		{ name: 'Price', value: 'price', description: 'Price, currency, price type and the converted price' },
+		{ name: 'Price History', value: 'history', description: 'PriceChanged, previousPrice, priceHistory, firstSeen, lastSeen' },
+		{ name: 'Search', value: 'search', description: 'Category, subcategory, country, domain, matchedQueries' },
+		{ name: 'Stats', value: 'stats', description: 'Views, dates and the TOP flag' },
+		{ name: 'Title', value: 'title' },
+	],
+	default: [],
+	description: 'Listing fields to return, to keep large runs small. Leave empty to return all fields.',
+	displayOptions: {
+		show: {
+			operation: ['search', 'searchMany', 'getListings'],
+		},
+	},
+};
+
+// Copies the fields of the chosen sets in the order of the listing; no sets means the whole listing
+export function pickListingFields(listing: BazosListing, fieldSets: string[]): Partial<BazosListing> {
+	if (fieldSets.length === 0) {
+		return listing;
+	}
+	const fields = new Set<string>([...fieldSets.flatMap((fieldSet) => LISTING_FIELD_SETS[fieldSet] ?? []), ...ALWAYS_RETURNED]);
+	return Object.fromEntries(Object.entries(listing).filter(([field]) => fields.has(field))) as Partial<BazosListing>;
+}
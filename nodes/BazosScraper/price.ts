@@ -0,0 +1,133 @@
+import { IDataObject } from 'n8n-workflow';
+
+import { getCountry } from './countries';
+import type { BazosListing } from './listing';
+
+export type PriceType = 'fixed' | 'free' | 'negotiable' | 'inText' | 'offer';
+
+export interface ParsedPrice {
+	// null when the listing has no numeric price (negotiable, in text, make an offer)
+	price: number | null;
+	// ISO 4217 code, null when there is no price
+	currency: string | null;
+	priceType: PriceType;
+}
+
+// Approximate rates per target currency, only used to compare SK and CZ prices when no rate is entered
+export const DEFAULT_EXCHANGE_RATES: Record<string, Record<string, number>> = {
+	EUR: { CZK: 0.04 },
+	CZK: { EUR: 25 },
+};
+
+const CURRENCY_SYMBOLS: Array<[RegExp, string]> = [
+	[/€|eur/i, 'EUR'],
+	[/kč|czk/i, 'CZK'],
+	[/zł|pln/i, 'PLN'],
+];
+
+export const stripDiacritics = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+export function parsePrice(priceText: string, country: string = 'sk'): ParsedPrice {
+	const text = stripDiacritics(priceText.toLowerCase());
+	// Listing prices without a currency sign are in the local currency of the domain
+	const { currency: defaultCurrency, priceWords } = getCountry(country);
+
+	const price = parseAmount(priceText);
+	const currency = CURRENCY_SYMBOLS.find(([pattern]) => pattern.test(priceText))?.[1] ?? defaultCurrency;
+
+	for (const [priceType, words] of Object.entries(priceWords) as Array<[PriceType, string[]]>) {
+		if (words.some((word) => containsWord(text, word))) {
+			if (priceType === 'free') {
+				return { price: 0, currency: defaultCurrency, priceType };
+			}
+			// A price with a note like "150 € VB" keeps its amount
+			return price === null ? { price: null, currency: null, priceType } : { price, currency, priceType };
+		}
+	}
+
+	if (price === null) {
+		// Anything else without a number is best read as "see the description"
+		return { price: null, currency: null, priceType: 'inText' };
+	}
+	return { price, currency, priceType: 'fixed' };
+}
+
+// Short words like "vb" would also match inside other words, so only whole words count
+export function containsWord(text: string, word: string): boolean {
+	return new RegExp(`(^|[^a-z])${word}($|[^a-z])`).test(text);
+}
+
+/**
+ * Parses amounts like "450 €", "1 299,90 €", "12.500 Kč" or "1299.90". Spaces (including
+ * non-breaking ones) and dots in groups of three are thousand separators, a comma is decimal.
+ * Of a range like "1 000 - 1 500 €" the lower bound is returned.
+ */
+export function parseAmount(text: string): number | null {
+	const match = text.match(/\d[\d\s.,]*/);
+	if (!match) {
+		return null;
+	}
+
+	let amount = match[0].replace(/\s/g, '').replace(/[.,]+$/, '');
+	if (amount.includes(',')) {
+		amount = amount.replace(/\./g, '').replace(',', '.');
+	} else if (/^\d{1,3}(\.\d{3})+$/.test(amount)) {
+		amount = amount.replace(/\./g, '');
+	}
+
+	const value = parseFloat(amount);
+	return Number.isNaN(value) ? null : value;
+}
+
+/**
+ * Converts a price with user-supplied rates, where a rate is the value of one unit of the
+ * listing currency in the target currency. Returns null when no rate is known.
+ */
+export function convertPrice(price: number | null, currency: string | null, targetCurrency: string, rates: Record<string, number>): number | null {
+	if (price === null || !currency) {
+		return null;
+	}
+	if (currency === targetCurrency) {
+		return price;
+	}
+	const rate = rates[currency];
+	if (!rate) {
+		return null;
+	}
+	return Math.round(price * rate * 100) / 100;
+}
+
+/**
+ * Converts a price filter entered in the target currency into the local currency of a domain, the
+ * inverse of convertPrice. The range is widened to whole units, so no listing at the bound is lost.
+ * Without a rate the bound is returned as it is.
+ */
+export function convertPriceBound(bound: number | null, targetCurrency: string, currency: string, rates: Record<string, number>, round: (value: number) => number): number | null {
+	const rate = rates[currency];
+	if (bound === null || currency === targetCurrency || !rate) {
+		return bound;
+	}
+	return round(bound / rate);
+}
+
+// Adds convertedPrice and convertedCurrency to every listing, or to the listing of the Get operation
+export function convertListingPrices(
+	listings: Array<Pick<BazosListing, 'price' | 'currency' | 'convertedPrice' | 'convertedCurrency'>>,
+	targetCurrency: string,
+	rates: Record<string, number>,
+) {
+	for (const listing of listings) {
+		listing.convertedPrice = convertPrice(listing.price, listing.currency, targetCurrency, rates);
+		listing.convertedCurrency = targetCurrency;
+	}
+}
+
+// Turns the "Exchange Rates" fixedCollection into a currency -> rate map
+export function buildExchangeRates(collection: IDataObject): Record<string, number> {
+	const rates = (collection.rate ?? []) as Array<{ currency: string; rate: number }>;
+	return Object.fromEntries(
+		rates
+			.filter((entry) => entry.currency && Number(entry.rate) > 0)
+			.map((entry) => [entry.currency.trim().toUpperCase(), Number(entry.rate)]),
+	);
+}
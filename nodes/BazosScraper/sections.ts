@@ -0,0 +1,127 @@
+import { IDataObject, INodeProperties } from 'n8n-workflow';
+
+import { BazosScraperError } from './errors';
+
+interface BazosSectionFilter {
+	// Name in the Section Filters collection, unique across all sections
+	name: string;
+	displayName: string;
+	// Query parameter of the section's search form
+	parameter: string;
+	description: string;
+}
+
+/**
+ * Extra search fields of section sites, keyed by section host prefix (the Category option). The
+ * section is the same on every domain, e.g. auto.bazos.sk and auto.bazos.cz. Real-estate types
+ * are subcategories (reality.bazos.sk/predam/byt/), so they are chosen with the Subcategory option.
+ */
+export const SECTION_FILTERS: Record<string, BazosSectionFilter[]> = {
+	auto: [
+		{ name: 'yearFrom', displayName: 'Year From', parameter: 'rokod', description: 'Oldest year of manufacture' },
+		{ name: 'yearTo', displayName: 'Year To', parameter: 'rokdo', description: 'Newest year of manufacture' },
+		{ name: 'mileageFrom', displayName: 'Mileage From (km)', parameter: 'kmod', description: 'Lowest mileage in kilometers' },
+		{ name: 'mileageTo', displayName: 'Mileage To (km)', parameter: 'kmdo', description: 'Highest mileage in kilometers' },
+	],
+	reality: [
+		{ name: 'areaFrom', displayName: 'Area From (m²)', parameter: 'plochaod', description: 'Smallest floor area in square meters' },
+		{ name: 'areaTo', displayName: 'Area To (m²)', parameter: 'plochado', description: 'Largest floor area in square meters' },
+	],
+};
+
+export const sectionFiltersDescription: INodeProperties = {
+	displayName: 'Section Filters',
+	name: 'sectionFilters',
+	type: 'collection',
+	placeholder: 'Add Filter',
+	default: {},
+	description: 'Extra search fields of the selected section, sent to Bazos with the search',
+	displayOptions: {
+		show: {
+			operation: ['search'],
+			category: Object.keys(SECTION_FILTERS),
+		},
+	},
+	options: Object.entries(SECTION_FILTERS).flatMap(([section, filters]) =>
+		filters.map((filter) => ({
+			displayName: filter.displayName,
+			name: filter.name,
+			type: 'number' as const,
+			// Empty like Min Price, a 0 would send e.g. rokdo=0 and filter out every listing
+			default: '',
+			description: filter.description,
+			displayOptions: {
+				show: {
+					'/category': [section],
+				},
+			},
+		})),
+	),
+};
+
+export const additionalParametersDescription: INodeProperties = {
+	displayName: 'Additional Query Parameters',
+	name: 'additionalParameters',
+	type: 'fixedCollection',
+	typeOptions: {
+		multipleValues: true,
+	},
+	default: {},
+	placeholder: 'Add Parameter',
+	description: 'Query parameters to add to the search URL for search fields the node does not offer yet. A parameter the node sets itself (e.g. order) is replaced.',
+	displayOptions: {
+		show: {
+			operation: ['search', 'searchMany'],
+		},
+	},
+	options: [
+		{
+			displayName: 'Parameter',
+			name: 'parameter',
+			values: [
+				{
+					displayName: 'Name',
+					name: 'name',
+					type: 'string',
+					default: '',
+					placeholder: 'e.g., rokod',
+				},
+				{
+					displayName: 'Value',
+					name: 'value',
+					type: 'string',
+					default: '',
+				},
+			],
+		},
+	],
+};
+
+// Turns the filters of the selected section into query parameters; filters left empty or at 0 are not sent
+export function buildSectionParameters(category: string, collection: IDataObject): Record<string, string> {
+	const parameters: Record<string, string> = {};
+	for (const filter of SECTION_FILTERS[category] ?? []) {
+		const value = collection[filter.name];
+		if (value !== undefined && value !== null && value !== '' && Number(value) !== 0) {
+			parameters[filter.parameter] = String(value);
+		}
+	}
+	return parameters;
+}
+
+export function buildAdditionalParameters(collection: IDataObject): Record<string, string> {
+	const entries = (collection.parameter ?? []) as Array<{ name: string; value: string }>;
+	const parameters: Record<string, string> = {};
+	for (const entry of entries) {
+		const name = String(entry.name ?? '').trim();
+		if (!name) {
+			throw new BazosScraperError('invalidParameters', 'Additional query parameters need a name');
+		}
+		// crz is the page offset, setting it would make every page the same
+		if (name === 'crz') {
+			throw new BazosScraperError('invalidParameters', 'The crz parameter is used for pagination and cannot be set');
+		}
+		parameters[name] = String(entry.value ?? '');
+	}
+	return parameters;
+}
@@ -0,0 +1,674 @@
+import * as cheerio from 'cheerio';
+
+import { BazosScraper } from '../nodes/BazosScraper/BazosScraper.node';
+import { BazosScraperError } from '../nodes/BazosScraper/errors';
+import { buildListingFilters } from '../nodes/BazosScraper/filters';
+import { buildAdditionalParameters, buildSectionParameters } from '../nodes/BazosScraper/sections';
+import { BazosHttpClient } from '../nodes/BazosScraper/transport';
+import { createListing, loadFixture, mockHttp } from './helpers';
+
+const searchParams = {
+	search: 'notebook',
+	location: '',
+	distance: 25,
+	minPrice: null,
+	maxPrice: null,
+	order: '',
+	resultsLimit: 100,
+	publishedDays: null,
+	withFullDescriptions: false,
+	country: 'sk',
+};
+
+// No throttling or retries, so the tests run instantly and failures surface immediately
+const createClient = () => new BazosHttpClient({ requestsPerSecond: 0, maxRetries: 0 });
+
+const skRoutes: Array<[RegExp, string | number]> = [
+	[/\/inzerat\//, 'detail-sk.html'],
+	[/crz=20/, 'search-sk-page2.html'],
+	[/crz=40/, 'search-sk-empty.html'],
+	[/search\.php/, 'search-sk.html'],
+];
+
+describe('BazosScraper', () => {
+	beforeEach(() => {
+		jest.useFakeTimers({ now: new Date('2025-10-28T10:00:00Z'), doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'queueMicrotask'] });
+		jest.spyOn(console, 'log').mockImplementation(() => undefined);
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+		jest.restoreAllMocks();
+	});
+
+	describe('scrapeBazos', () => {
+		it('parses SK listings and the total count', async () => {
+			mockHttp(skRoutes);
+
+			const { listings, totalResults } = await BazosScraper.scrapeBazos({ ...searchParams, client: createClient() });
+
+			expect(totalResults).toBe(60);
+			expect(listings).toHaveLength(6);
+			expect(listings[0]).toMatchObject({
+				id: 171234567,
+				title: 'Lenovo ThinkPad T14',
+				link: 'https://www.bazos.sk/inzerat/171234567/lenovo-thinkpad-t14.php',
+				imgLink: 'https://www.bazos.sk/img/1/567/171234567.jpg',
+				imageOrder: 1,
+				images: ['https://www.bazos.sk/img/1/567/171234567.jpg'],
+				added: '2025-10-28',
+				price: 450,
+				currency: 'EUR',
+				priceType: 'fixed',
+				location: 'Bratislava',
+				postCode: '811 01',
+				views: 123,
+			});
+			// Nothing was fetched from the detail pages, so their fields are left out
+			expect(listings[0]).not.toHaveProperty('fullDescription');
+			expect(listings[0]).not.toHaveProperty('phone');
+			expect(listings[0].description.endsWith('...')).toBe(true);
+			expect(listings[5]).toMatchObject({ id: 171200002, imageOrder: 3, imgLink: 'https://www.bazos.sk/img/3/002/171200002.jpg' });
+		});
+
+		it('adds coordinates and the distance from the search post code', async () => {
+			mockHttp(skRoutes);
+
+			const { listings } = await BazosScraper.scrapeBazos({ ...searchParams, location: '81101', client: createClient() });
+
+			expect(listings[0]).toMatchObject({ lat: 48.144, lon: 17.108, district: 'Bratislava I', region: 'Bratislavský kraj', distanceKm: 0 });
+			expect(listings[1]).toMatchObject({ district: 'Trnava', region: 'Trnavský kraj', distanceKm: 44 });
+		});
+
+		it('parses CZ listings on bazos.cz', async () => {
+			mockHttp([[/search\.php/, 'search-cz.html']]);
+
+			const { listings, totalResults } = await BazosScraper.scrapeBazos({ ...searchParams, search: 'kolo', country: 'cz', client: createClient() });
+
+			expect(totalResults).toBe(2);
+			expect(listings.map((listing) => listing.link)).toEqual([
+				'https://www.bazos.cz/inzerat/201234501/horske-kolo.php',
+				'https://www.bazos.cz/inzerat/201234502/detske-kolo.php',
+			]);
+			expect(listings[0]).toMatchObject({ price: 12500, currency: 'CZK', priceType: 'fixed', location: 'Praha', postCode: '110 00', added: '2025-10-26' });
+		});
+
+		it('treats "Zadarmo" and "Zdarma" as free items', async () => {
+			const { spy } = mockHttp(skRoutes);
+			const sk = await BazosScraper.scrapeBazos({ ...searchParams, client: createClient() });
+			spy.mockRestore();
+			mockHttp([[/search\.php/, 'search-cz.html']]);
+			const cz = await BazosScraper.scrapeBazos({ ...searchParams, country: 'cz', client: createClient() });
+
+			expect(sk.listings[1]).toMatchObject({ title: 'Darujem starý notebook', price: 0, currency: 'EUR', priceType: 'free' });
+			expect(cz.listings[1]).toMatchObject({ title: 'Dětské kolo', price: 0, currency: 'CZK', priceType: 'free' });
+		});
+
+		it('parses thousand separators and negotiable prices', async () => {
+			mockHttp(skRoutes);
+
+			const { listings } = await BazosScraper.scrapeBazos({ ...searchParams, client: createClient() });
+
+			expect(listings[2]).toMatchObject({ title: 'HP EliteBook 840', price: 1299, currency: 'EUR', priceType: 'fixed' });
+			expect(listings[3]).toMatchObject({ title: 'Dell Latitude', price: null, currency: null, priceType: 'negotiable' });
+		});
+
+		it('builds the search URL and paginates with crz until a page has no listings', async () => {
+			const { requestedUrls } = mockHttp(skRoutes);
+
+			await BazosScraper.scrapeBazos({ ...searchParams, client: createClient() });
+
+			expect(requestedUrls).toHaveLength(3);
+			expect(requestedUrls[0]).toBe(
+				'https://www.bazos.sk/search.php?hledat=notebook&rubriky=www&hlokalita=&humkreis=25&Submit=H%C4%BEada%C5%A5&order=&kitx=ano',
+			);
+			expect(requestedUrls[1]).toBe(`${requestedUrls[0]}&crz=20`);
+			expect(requestedUrls[2]).toBe(`${requestedUrls[0]}&crz=40`);
+		});
+
+		it('stops paginating once the offset passes the total count', async () => {
+			const { requestedUrls } = mockHttp([[/search\.php/, 'search-cz.html']]);
+
+			await BazosScraper.scrapeBazos({ ...searchParams, country: 'cz', client: createClient() });
+
+			expect(requestedUrls).toHaveLength(1);
+		});
+
+		it('stops at the results limit', async () => {
+			const { requestedUrls } = mockHttp(skRoutes);
+
+			const { listings } = await BazosScraper.scrapeBazos({ ...searchParams, resultsLimit: 3, client: createClient() });
+
+			expect(listings.map((listing) => listing.id)).toEqual([171234567, 171234568, 171234569]);
+			expect(requestedUrls).toHaveLength(1);
+		});
+
+		it('stops paginating newest-first results once a page has no listings within publishedDays', async () => {
+			const { requestedUrls } = mockHttp(skRoutes);
+
+			const { listings } = await BazosScraper.scrapeBazos({ ...searchParams, publishedDays: 2, client: createClient() });
+
+			expect(listings.map((listing) => listing.added)).toEqual(['2025-10-28', '2025-10-27', '2025-10-27']);
+			expect(requestedUrls.some((url) => url.includes('crz=40'))).toBe(false);
+		});
+
+		it('flags TOP listings and does not stop paginating on a page of old TOP listings', async () => {
+			mockHttp([[/crz=20/, 'search-sk-page2.html'], [/crz=40/, 'search-sk-empty.html'], [/search\.php/, 'search-sk-top.html']]);
+
+			const { listings } = await BazosScraper.scrapeBazos({ ...searchParams, publishedDays: 10, client: createClient() });
+
+			expect(listings.map((listing) => [listing.id, listing.isTop])).toEqual([
+				[171100001, true],
+				[171200001, false],
+				[171200002, false],
+			]);
+		});
+
+		it('adds the date in the configured time zone', async () => {
+			mockHttp(skRoutes);
+
+			const { listings } = await BazosScraper.scrapeBazos({ ...searchParams, resultsLimit: 1, timeZone: 'Europe/Prague', client: createClient() });
+
+			expect(listings[0]).toMatchObject({ added: '2025-10-28', addedDate: '2025-10-28', addedAt: null, isTop: false });
+		});
+
+		it('fetches detail pages for truncated descriptions only', async () => {
+			const { requestedUrls } = mockHttp(skRoutes);
+
+			const { listings } = await BazosScraper.scrapeBazos({ ...searchParams, withFullDescriptions: true, client: createClient() });
+
+			const detailUrls = requestedUrls.filter((url) => url.includes('/inzerat/'));
+			expect(detailUrls).toEqual(['https://www.bazos.sk/inzerat/171234567/lenovo-thinkpad-t14.php']);
+			expect(listings[0]).toMatchObject({ name: 'Peter', phone: '+421901234567', sellerId: '987654' });
+			expect(listings[0].fullDescription).toContain('Osobný odber Bratislava.');
+			expect(listings[1]).not.toHaveProperty('fullDescription');
+		});
+
+		it('fetches detail pages of all listings for seller contacts', async () => {
+			const { requestedUrls } = mockHttp(skRoutes);
+
+			const { listings } = await BazosScraper.scrapeBazos({ ...searchParams, resultsLimit: 2, withContact: true, client: createClient() });
+
+			expect(requestedUrls.filter((url) => url.includes('/inzerat/'))).toHaveLength(2);
+			expect(listings[1]).toMatchObject({ name: 'Peter', phone: '+421901234567', hasPhone: true });
+			expect(listings[1]).not.toHaveProperty('email');
+		});
+
+		it('reports a failed detail page on the listing instead of failing the run', async () => {
+			mockHttp([[/\/inzerat\//, 503], ...skRoutes]);
+
+			const { listings } = await BazosScraper.scrapeBazos({ ...searchParams, withFullDescriptions: true, client: createClient() });
+
+			expect(listings).toHaveLength(6);
+			expect(listings[0].detailError).toBe('Request to https://www.bazos.sk/inzerat/171234567/lenovo-thinkpad-t14.php failed with HTTP status 503');
+			expect(listings[0]).not.toHaveProperty('fullDescription');
+		});
+	});
+
+	describe('scrapeBazosPaginated', () => {
+		it('returns whole pages and a cursor to the next one', async () => {
+			const { requestedUrls } = mockHttp(skRoutes);
+
+			const result = await BazosScraper.scrapeBazosPaginated({ ...searchParams, resultsLimit: 3, client: createClient() }, '', false);
+
+			expect(requestedUrls).toHaveLength(1);
+			expect(result.listings).toHaveLength(4);
+			expect(result.queryHash).toMatch(/^[0-9a-f]{16}$/);
+			expect(result.nextOffset).toBe(20);
+			expect(result.nextCursor).toEqual({ queryHash: result.queryHash, offset: 20 });
+		});
+
+		it('continues from a start cursor until the last page', async () => {
+			const { requestedUrls } = mockHttp(skRoutes);
+			const first = await BazosScraper.scrapeBazosPaginated({ ...searchParams, resultsLimit: 3, client: createClient() }, '', false);
+
+			const next = await BazosScraper.scrapeBazosPaginated({ ...searchParams, resultsLimit: 3, client: createClient() }, JSON.stringify(first.nextCursor), false);
+
+			expect(requestedUrls.slice(1)).toEqual([expect.stringContaining('crz=20'), expect.stringContaining('crz=40')]);
+			expect(next.listings.map((listing) => listing.id)).toEqual([171200001, 171200002]);
+			expect(next.nextCursor).toBeNull();
+			// The fixture claims 60 results, so the empty third page means Bazos stopped serving pages
+			expect(next.warnings).toEqual([expect.objectContaining({ message: expect.stringContaining('offset 40 of 60') })]);
+		});
+
+		it('fails instead of returning nothing when the total count cannot be read for price bands', async () => {
+			mockHttp(skRoutes);
+			jest.spyOn(BazosScraper, 'parseTotalResults').mockReturnValue(null);
+
+			await expect(BazosScraper.scrapeBazosPaginated({ ...searchParams, client: createClient() }, '', true)).rejects.toMatchObject({ type: 'markupChanged' });
+		});
+
+		it('rejects a cursor of a different search', async () => {
+			mockHttp(skRoutes);
+			const first = await BazosScraper.scrapeBazosPaginated({ ...searchParams, resultsLimit: 3, client: createClient() }, '', false);
+
+			await expect(
+				BazosScraper.scrapeBazosPaginated({ ...searchParams, search: 'thinkpad', client: createClient() }, first.nextCursor, false),
+			).rejects.toThrow('Start Cursor belongs to a different search');
+		});
+	});
+
+	describe('hashCoverImages', () => {
+		it('hashes the cover images and reports the ones that failed', async () => {
+			mockHttp([[/171234567/, 404], [/\/img\//, 'captcha.html']]);
+			const listings = [
+				createListing({ id: 171234567, imgLink: 'https://www.bazos.sk/img/1/567/171234567.jpg' }),
+				createListing({ id: 171234568, imgLink: 'https://www.bazos.sk/img/1/568/171234568.jpg' }),
+				createListing({ id: 0, imgLink: '' }),
+			];
+
+			const warnings = await BazosScraper.hashCoverImages(listings, createClient());
+
+			expect(listings.map((listing) => listing.coverImageHash)).toEqual([undefined, expect.stringMatching(/^[0-9a-f]{64}$/), undefined]);
+			expect(warnings).toEqual([expect.objectContaining({ stage: 'detail', listingId: 171234567 })]);
+		});
+	});
+
+	describe('buildSearchUrl', () => {
+		it('adds section filters and additional parameters, replacing built-in ones of the same name', () => {
+			const extraParameters = {
+				...buildSectionParameters('auto', { yearFrom: 2015, mileageTo: 150000, areaFrom: 80 }),
+				...buildAdditionalParameters({ parameter: [{ name: 'order', value: '3' }, { name: 'palivo', value: 'diesel & lpg' }] }),
+			};
+
+			expect(BazosScraper.buildSearchUrl({ ...searchParams, category: 'auto', extraParameters })).toBe(
+				'https://auto.bazos.sk/search.php?hledat=notebook&rubriky=auto&hlokalita=&humkreis=25&Submit=H%C4%BEada%C5%A5&order=3&kitx=ano&rokod=2015&kmdo=150000&palivo=diesel%20%26%20lpg',
+			);
+		});
+
+		it('paginates subcategory pages by path', () => {
+			expect(BazosScraper.buildSearchUrl({ ...searchParams, category: 'pc', subcategory: 'notebook' }, 40)).toBe(
+				'https://pc.bazos.sk/notebook/40/?hledat=notebook&rubriky=pc&hlokalita=&humkreis=25&Submit=H%C4%BEada%C5%A5&order=&kitx=ano',
+			);
+		});
+
+		it('reports the fetched URL as searchUrl', async () => {
+			const { requestedUrls } = mockHttp(skRoutes);
+
+			const { searchUrl } = await BazosScraper.scrapeBazos({ ...searchParams, extraParameters: { stav: 'novy' }, client: createClient() });
+
+			expect(requestedUrls[0]).toBe(searchUrl);
+			expect(searchUrl).toContain('&stav=novy');
+		});
+
+		it('does not send section filters that were added but left unset', () => {
+			expect(buildSectionParameters('auto', { yearFrom: 2015, yearTo: '', mileageTo: 0 })).toEqual({ rokod: '2015' });
+		});
+
+		it('rejects additional parameters without a name or for pagination', () => {
+			expect(() => buildAdditionalParameters({ parameter: [{ name: ' ', value: '1' }] })).toThrow(BazosScraperError);
+			expect(() => buildAdditionalParameters({ parameter: [{ name: 'crz', value: '20' }] })).toThrow('pagination');
+		});
+	});
+
+	describe('filters', () => {
+		it('drops excluded listings and keeps paginating until the limit is reached', async () => {
+			const { requestedUrls } = mockHttp(skRoutes);
+
+			const filters = buildListingFilters({ excludeWords: 'darujem, dell' });
+			const { listings, filteredOut } = await BazosScraper.scrapeBazos({ ...searchParams, resultsLimit: 3, filters, client: createClient() });
+
+			expect(listings.map((listing) => listing.title)).toEqual(['Lenovo ThinkPad T14', 'HP EliteBook 840', 'Asus ZenBook']);
+			expect(filteredOut).toEqual({ excludeWords: 2, requiredWords: 0, regex: 0, sellerBlacklist: 0 });
+			expect(requestedUrls).toHaveLength(2);
+		});
+
+		it('matches words in the title only when asked to', async () => {
+			mockHttp(skRoutes);
+
+			const everywhere = await BazosScraper.scrapeBazos({ ...searchParams, filters: buildListingFilters({ requiredWords: 'notebook' }), client: createClient() });
+			const titleOnly = await BazosScraper.scrapeBazos({ ...searchParams, filters: buildListingFilters({ requiredWords: 'notebook', titleOnly: true }), client: createClient() });
+
+			expect(everywhere.listings.map((listing) => listing.id)).toEqual([171234567, 171234568]);
+			expect(titleOnly.listings.map((listing) => listing.id)).toEqual([171234568]);
+		});
+
+		it('fetches detail pages to drop blacklisted sellers', async () => {
+			const { requestedUrls } = mockHttp(skRoutes);
+
+			const filters = buildListingFilters({ sellerBlacklist: '+421 901 234 567' });
+			const { listings, filteredOut } = await BazosScraper.scrapeBazos({ ...searchParams, filters, client: createClient() });
+
+			expect(listings).toHaveLength(0);
+			expect(filteredOut.sellerBlacklist).toBe(6);
+			expect(requestedUrls.filter((url) => url.includes('/inzerat/'))).toHaveLength(6);
+		});
+
+		it('keeps the cover image only when the seller check fetched the detail page', async () => {
+			mockHttp(skRoutes);
+
+			const filters = buildListingFilters({ sellerBlacklist: 'Nobody' });
+			const { listings } = await BazosScraper.scrapeBazos({ ...searchParams, resultsLimit: 1, filters, client: createClient() });
+
+			expect(listings[0].name).toBe('Peter');
+			expect(listings[0].images).toEqual(['https://www.bazos.sk/img/1/567/171234567.jpg']);
+		});
+	});
+
+	describe('scrapeBazosBatch', () => {
+		const query = { search: 'notebook', location: '', distance: 25, minPrice: null, maxPrice: null, country: 'sk' };
+		const shared = { order: '', resultsLimit: 100, publishedDays: null, withFullDescriptions: false };
+
+		it('merges the queries and lists every query that found a listing', async () => {
+			mockHttp([[/bazos\.cz/, 'search-cz.html'], ...skRoutes]);
+
+			const { listings, queries, duplicates } = await BazosScraper.scrapeBazosBatch(
+				[query, { ...query, search: 'lenovo' }, { ...query, search: 'kolo', country: 'cz' }],
+				{ ...shared, client: createClient() },
+			);
+
+			expect(listings).toHaveLength(8);
+			expect(duplicates).toBe(6);
+			expect(listings[0].matchedQueries).toEqual(['notebook', 'lenovo']);
+			expect(listings[7]).toMatchObject({ id: 201234502, matchedQueries: ['kolo'] });
+			expect(queries.map((result) => [result.searchTerm, result.country, result.totalReturned])).toEqual([
+				['notebook', 'sk', 6],
+				['lenovo', 'sk', 6],
+				['kolo', 'cz', 2],
+			]);
+			expect(queries[1].searchUrl).toContain('hledat=lenovo');
+		});
+
+		it('fetches the detail page of a listing found by several queries only once', async () => {
+			const { requestedUrls } = mockHttp(skRoutes);
+
+			const { listings } = await BazosScraper.scrapeBazosBatch([query, { ...query, search: 'lenovo' }], { ...shared, withFullDescriptions: true, client: createClient() });
+
+			expect(requestedUrls.filter((url) => url.includes('/inzerat/'))).toHaveLength(1);
+			expect(listings[0].fullDescription).toContain('Osobný odber Bratislava.');
+		});
+
+		it('validates the queries from the node parameter', () => {
+			expect(BazosScraper.getBatchQueries({ query: [{ search: 'thinkpad', minPrice: '', maxPrice: 500, country: 'cz' }] })).toEqual([
+				{ search: 'thinkpad', location: '', distance: 25, minPrice: null, maxPrice: 500, country: 'cz', category: '' },
+			]);
+			expect(() => BazosScraper.getBatchQueries({})).toThrow(BazosScraperError);
+			expect(() => BazosScraper.getBatchQueries({ query: [{ search: '' }] })).toThrow('Search term is required');
+		});
+	});
+
+	describe('scrapeBazosAllCountries', () => {
+		const routes: Array<[RegExp, string | number]> = [[/bazos\.cz/, 'search-cz.html'], ...skRoutes];
+
+		it('merges both domains newest first and tags the listings with their country', async () => {
+			mockHttp(routes);
+
+			const { listings, totalResults } = await BazosScraper.scrapeBazosAllCountries({ ...searchParams, client: createClient() }, {}, 'EUR', {});
+
+			expect(totalResults).toBe(62);
+			expect(listings.map((listing) => listing.id)).toEqual([171234567, 171234568, 171234569, 201234501, 171234570, 201234502, 171200001, 171200002]);
+			expect(listings[3]).toMatchObject({ country: 'cz', domain: 'bazos.cz', price: 12500, currency: 'CZK', convertedPrice: 500, convertedCurrency: 'EUR' });
+			expect(listings[0]).toMatchObject({ country: 'sk', domain: 'bazos.sk' });
+		});
+
+		it('sorts by the converted price and keeps the results limit', async () => {
+			mockHttp(routes);
+
+			const { listings } = await BazosScraper.scrapeBazosAllCountries({ ...searchParams, order: 1, resultsLimit: 5, client: createClient() }, {}, 'EUR', { CZK: 0.05 });
+
+			expect(listings.map((listing) => listing.convertedPrice)).toEqual([0, 0, 450, 600, 625]);
+			expect(listings.map((listing) => listing.country)).toEqual(['sk', 'cz', 'sk', 'sk', 'cz']);
+		});
+
+		it('converts the price range into the currency of each domain', async () => {
+			const { requestedUrls } = mockHttp(routes);
+
+			await BazosScraper.scrapeBazosAllCountries({ ...searchParams, minPrice: 100, maxPrice: 500, client: createClient() }, {}, 'EUR', {});
+
+			expect(requestedUrls.find((url) => url.includes('bazos.sk'))).toContain('cenaod=100&cenado=500');
+			expect(requestedUrls.find((url) => url.includes('bazos.cz'))).toContain('cenaod=2500&cenado=12500');
+		});
+
+		it('alternates the domains for listings from the same day', () => {
+			const listings = [
+				createListing({ id: 1, added: '2025-10-28', country: 'sk' }),
+				createListing({ id: 2, added: '2025-10-28', country: 'sk' }),
+				createListing({ id: 3, added: '2025-10-27', country: 'sk' }),
+				createListing({ id: 4, added: '2025-10-28', country: 'cz' }),
+				createListing({ id: 5, added: '2025-10-28', country: 'cz' }),
+			];
+
+			BazosScraper.sortListings(listings, '');
+
+			expect(listings.map((listing) => listing.id)).toEqual([1, 4, 2, 5, 3]);
+		});
+
+		it('measures the distance of listings from both domains from the same origin', async () => {
+			mockHttp(routes);
+
+			const { listings } = await BazosScraper.scrapeBazosAllCountries({ ...searchParams, client: createClient() }, { sk: '81101', cz: '11000' }, 'EUR', {});
+
+			const prague = listings.find((listing) => listing.postCode === '110 00');
+			expect(prague).toMatchObject({ district: 'Praha 1', region: 'Hlavní město Praha' });
+			expect(prague?.distanceKm).toBeGreaterThan(250);
+		});
+
+		it('sends each domain only its own post code', async () => {
+			const { requestedUrls } = mockHttp(routes);
+
+			await BazosScraper.scrapeBazosAllCountries({ ...searchParams, client: createClient() }, { sk: '81101', cz: '11000' }, 'EUR', {});
+
+			expect(requestedUrls.find((url) => url.includes('bazos.sk'))).toContain('hlokalita=81101');
+			expect(requestedUrls.find((url) => url.includes('bazos.cz'))).toContain('hlokalita=11000');
+		});
+	});
+
+	describe('countries', () => {
+		it('searches bazos.pl with its own submit label', async () => {
+			const { requestedUrls } = mockHttp([[/search\.php/, 'search-sk-empty.html']]);
+
+			await BazosScraper.scrapeBazos({ ...searchParams, country: 'pl', client: createClient() });
+
+			expect(requestedUrls[0]).toBe('https://www.bazos.pl/search.php?hledat=notebook&rubriky=www&hlokalita=&humkreis=25&Submit=Szukaj&order=&kitx=ano');
+		});
+
+		it('reads the total count with the words of each domain', () => {
+			const heading = (text: string) => cheerio.load(`<div class="inzeratynadpis">${text}</div>`);
+
+			expect(BazosScraper.parseTotalResults(heading('Zobrazeno 1-20 inzerátů z 1 234'), 'cz')).toBe(1234);
+			expect(BazosScraper.parseTotalResults(heading('Anzeige 1-20 von 1.234'), 'at')).toBe(1234);
+		});
+
+		it('recognizes listing and seller URLs of every domain', () => {
+			expect(BazosScraper.getListingUrl('123456789', 'at')).toBe('https://www.bazos.at/inzerat/123456789/');
+			expect(BazosScraper.getListingUrl('https://auto.bazos.pl/inzerat/123/auto.php', 'sk')).toBe('https://auto.bazos.pl/inzerat/123/auto.php');
+			expect(BazosScraper.getListingUrl('https://www.example.com/inzerat/123/', 'sk')).toBeNull();
+			expect(BazosScraper.isSellerUrl('https://www.bazos.cz/hodnoceni.php?idmail=1')).toBe(true);
+			expect(BazosScraper.isSellerUrl('https://www.bazos.at/bewertung.php?idmail=1')).toBe(true);
+			expect(BazosScraper.isSellerUrl('https://www.bazos.at/inzerat/1/')).toBe(false);
+		});
+	});
+
+	describe('errors', () => {
+		const scrape = (params = {}) => BazosScraper.scrapeBazos({ ...searchParams, ...params, client: createClient() });
+
+		it('classifies 403 responses as blocked', async () => {
+			mockHttp([[/search\.php/, 403]]);
+
+			await expect(scrape()).rejects.toMatchObject({ type: 'blocked', statusCode: 403 });
+		});
+
+		it('classifies other HTTP errors by status', async () => {
+			mockHttp([[/search\.php/, 500]]);
+
+			await expect(scrape()).rejects.toMatchObject({ type: 'httpStatus', statusCode: 500 });
+		});
+
+		it('recognizes a captcha page as blocked', async () => {
+			mockHttp([[/search\.php/, 'captcha.html']]);
+
+			await expect(scrape()).rejects.toMatchObject({ type: 'blocked' });
+		});
+
+		it('recognizes a captcha on a seller page as blocked', async () => {
+			mockHttp([[/hodnotenie\.php/, 'captcha.html']]);
+
+			await expect(
+				BazosScraper.scrapeSellerListings({ sellerUrl: 'https://www.bazos.sk/hodnotenie.php?idmail=987654', resultsLimit: 10, withFullDescriptions: false, country: 'sk', client: createClient() }),
+			).rejects.toMatchObject({ type: 'blocked' });
+		});
+
+		it('reports changed markup instead of returning no listings', async () => {
+			mockHttp([[/search\.php/, 'search-sk-changed.html']]);
+
+			const error = await scrape().catch((e) => e);
+
+			expect(error).toBeInstanceOf(BazosScraperError);
+			expect(error.type).toBe('markupChanged');
+		});
+
+		it('skips listings that cannot be parsed and reports them as warnings', async () => {
+			mockHttp([[/search\.php/, 'search-sk-broken-listing.html']]);
+
+			const { listings, warnings } = await scrape();
+
+			expect(listings.map((listing) => listing.id)).toEqual([171234567]);
+			expect(warnings).toEqual([
+				expect.objectContaining({ stage: 'listing', type: 'markupChanged', page: 1, message: 'Listing has no title or link' }),
+			]);
+		});
+
+		it('fails the whole run when a later page fails', async () => {
+			mockHttp([[/crz=20/, 503], ...skRoutes]);
+
+			await expect(scrape()).rejects.toMatchObject({ type: 'httpStatus' });
+		});
+
+		it('returns partial results with the page the run stopped on', async () => {
+			mockHttp([[/crz=20/, 503], ...skRoutes]);
+
+			const { listings, errors } = await scrape({ partialResults: true });
+
+			expect(listings).toHaveLength(4);
+			expect(errors).toEqual([
+				expect.objectContaining({ stage: 'page', type: 'httpStatus', page: 2, url: expect.stringContaining('crz=20') }),
+			]);
+		});
+
+		it('reports failed detail pages as warnings', async () => {
+			mockHttp([[/\/inzerat\//, 503], ...skRoutes]);
+
+			const { warnings } = await scrape({ withFullDescriptions: true });
+
+			expect(warnings).toEqual([
+				expect.objectContaining({ stage: 'detail', type: 'httpStatus', listingId: 171234567 }),
+			]);
+		});
+	});
+
+	describe('debug', () => {
+		const createDebugClient = (options = {}) => new BazosHttpClient({ requestsPerSecond: 0, maxRetries: 0, debug: true, ...options });
+
+		it('records every request with its status', async () => {
+			mockHttp([[/\/inzerat\//, 503], ...skRoutes]);
+			const client = createDebugClient();
+
+			await BazosScraper.scrapeBazos({ ...searchParams, withFullDescriptions: true, client });
+
+			expect(client.debug?.requests.map((request) => [request.url.includes('/inzerat/') ? 'detail' : 'page', request.status])).toEqual([
+				['page', 200],
+				['page', 200],
+				['page', 200],
+				['detail', 503],
+			]);
+			expect(client.debug?.requests[3]).toMatchObject({ attempt: 0, error: expect.stringContaining('503'), durationMs: expect.any(Number) });
+		});
+
+		it('keeps the raw text of listings that could not be parsed', async () => {
+			mockHttp([[/search\.php/, 'search-sk-broken-listing.html']]);
+			const client = createDebugClient();
+
+			await BazosScraper.scrapeBazos({ ...searchParams, client });
+
+			expect(client.debug?.parseFailures).toEqual([
+				{ field: 'listing', message: 'Listing has no title or link', rawText: expect.stringContaining('Inzerát bez nadpisu.'), url: expect.stringContaining('search.php'), page: 1 },
+			]);
+		});
+
+		it('does not collect anything without the debug option', async () => {
+			mockHttp(skRoutes);
+			const client = createClient();
+
+			await BazosScraper.scrapeBazos({ ...searchParams, client });
+
+			expect(client.debug).toBeUndefined();
+		});
+
+		it('logs retries and failed requests as warnings', async () => {
+			mockHttp([[/search\.php/, 503]]);
+			const logger = { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() };
+
+			await expect(BazosScraper.scrapeBazos({ ...searchParams, client: createDebugClient({ maxRetries: 1, logger }) })).rejects.toThrow();
+
+			expect(logger.warn.mock.calls.map(([message]) => message)).toEqual([
+				expect.stringMatching(/^Retrying Bazos request in 500 ms/),
+				expect.stringMatching(/^Bazos request failed/),
+			]);
+		});
+	});
+
+	describe('parseListingDetail', () => {
+		it('extracts everything from an SK detail page', () => {
+			const url = 'https://pc.bazos.sk/inzerat/171234567/lenovo-thinkpad-t14.php';
+
+			const detail = BazosScraper.parseListingDetail(cheerio.load(loadFixture('detail-sk.html')), url, 'sk');
+
+			expect(detail).toEqual({
+				id: 171234567,
+				title: 'Lenovo ThinkPad T14',
+				link: url,
+				description: expect.stringContaining('Osobný odber Bratislava.'),
+				images: [
+					'https://www.bazos.sk/img/1/567/171234567.jpg',
+					'https://www.bazos.sk/img/2/567/171234567.jpg',
+					'https://www.bazos.sk/img/3/567/171234567.jpg',
+				],
+				name: 'Peter',
+				phone: '+421901234567',
+				hasPhone: true,
+				sellerId: '987654',
+				sellerUrl: 'https://pc.bazos.sk/hodnotenie.php?idmail=987654&jmeno=Peter',
+				location: 'Bratislava',
+				postCode: '811 01',
+				lat: 48.144,
+				lon: 17.108,
+				district: 'Bratislava I',
+				region: 'Bratislavský kraj',
+				views: 1234,
+				added: '2025-10-28',
+				addedDate: '2025-10-28',
+				addedAt: null,
+				price: 450,
+				currency: 'EUR',
+				priceType: 'fixed',
+				category: 'PC > Notebooky',
+				breadcrumb: ['Hlavná stránka', 'PC', 'Notebooky'],
+			});
+		});
+
+		it('extracts everything from a CZ detail page', () => {
+			const url = 'https://sport.bazos.cz/inzerat/201234501/horske-kolo.php';
+
+			const detail = BazosScraper.parseListingDetail(cheerio.load(loadFixture('detail-cz.html')), url, 'cz');
+
+			expect(detail).toMatchObject({
+				id: 201234501,
+				title: 'Horské kolo',
+				images: ['https://sport.bazos.cz/img/1/501/201234501.jpg'],
+				name: 'Jan',
+				phone: '+420777123456',
+				hasPhone: true,
+				email: 'jan.novak@example.cz',
+				sellerId: '123321',
+				location: 'Praha',
+				postCode: '110 00',
+				views: 64,
+				added: '2025-10-26',
+				price: 12500,
+				currency: 'CZK',
+				priceType: 'fixed',
+				category: 'Sport > Cyklistika',
+			});
+		});
+	});
+});
@@ -0,0 +1,24 @@
+import { findEmail, toE164 } from '../nodes/BazosScraper/contact';
+
+describe('seller contact', () => {
+	it.each([
+		['0901 234 567', 'sk', '+421901234567'],
+		['777 123 456', 'cz', '+420777123456'],
+		['+421 901 234 567', 'cz', '+421901234567'],
+		['00420 777 123 456', 'sk', '+420777123456'],
+		['0905/123-456', 'sk', '+421905123456'],
+	])('normalizes "%s" on bazos.%s to E.164', (phone, country, expected) => {
+		expect(toE164(phone, country)).toBe(expected);
+	});
+
+	it('returns null for texts that are not phone numbers', () => {
+		expect(toE164('Zobraziť číslo', 'sk')).toBeNull();
+		expect(toE164('123', 'sk')).toBeNull();
+	});
+
+	it('finds the e-mail in a mailto link or in the text', () => {
+		expect(findEmail('mailto:jan@example.cz?subject=Kolo', '')).toBe('jan@example.cz');
+		expect(findEmail('', 'E-mail: peter.novak@example.sk')).toBe('peter.novak@example.sk');
+		expect(findEmail('', 'Meno: Peter')).toBeNull();
+	});
+});
@@ -0,0 +1,62 @@
+import { findPriceBands, getQueryHash, MAX_PAGINATED_RESULTS, parseCursor } from '../nodes/BazosScraper/cursor';
+import { BazosScraperError } from '../nodes/BazosScraper/errors';
+
+// Counts listings of a made-up search by price, like the total on the first result page
+const countIn = (prices: number[]) => async (minPrice: number | null, maxPrice: number | null) =>
+	prices.filter((price) => price >= (minPrice ?? 0) && (maxPrice === null || price <= maxPrice)).length;
+
+describe('cursor pagination', () => {
+	describe('findPriceBands', () => {
+		it('keeps a search with at most 1000 results in one band', async () => {
+			expect(await findPriceBands(null, null, countIn([10, 20, 30]))).toEqual([{ minPrice: null, maxPrice: null, totalResults: 3 }]);
+		});
+
+		it('splits a large search into adjacent bands of at most 1000 results', async () => {
+			const prices = Array.from({ length: 2500 }, (_, index) => index * 3);
+
+			const bands = await findPriceBands(null, null, countIn(prices));
+
+			expect(bands.every((band) => band.totalResults <= MAX_PAGINATED_RESULTS)).toBe(true);
+			expect(bands.reduce((sum, band) => sum + band.totalResults, 0)).toBe(2500);
+			expect(bands[0].minPrice).toBeNull();
+			expect(bands[bands.length - 1].maxPrice).toBeNull();
+			bands.slice(1).forEach((band, index) => expect(band.minPrice).toBe(bands[index].maxPrice! + 1));
+		});
+
+		it('keeps the range as one band when both halves count no results', async () => {
+			// The total changed between the requests, e.g. listings were deleted meanwhile
+			const countResults = async (minPrice: number | null, maxPrice: number | null) => (minPrice === null && maxPrice === null ? 1200 : 0);
+
+			expect(await findPriceBands(null, null, countResults)).toEqual([{ minPrice: null, maxPrice: null, totalResults: 1200 }]);
+		});
+
+		it('returns a single price with more than 1000 results as it is', async () => {
+			const prices = Array.from({ length: 1200 }, () => 0);
+
+			expect(await findPriceBands(0, 0, countIn(prices))).toEqual([{ minPrice: 0, maxPrice: 0, totalResults: 1200 }]);
+		});
+	});
+
+	describe('parseCursor', () => {
+		const queryHash = getQueryHash('https://www.bazos.sk/search.php?hledat=notebook');
+
+		it('accepts the cursor as an object or as JSON text', () => {
+			const cursor = { queryHash, offset: 40 };
+
+			expect(parseCursor(cursor, queryHash)).toEqual(cursor);
+			expect(parseCursor(JSON.stringify(cursor), queryHash)).toEqual(cursor);
+			expect(parseCursor('', queryHash)).toBeNull();
+		});
+
+		it.each([
+			['not json'],
+			[{ queryHash: 'other', offset: 20 }],
+			[{ offset: 30 }],
+			[{ offset: 0, band: 2, priceBands: [{ minPrice: null, maxPrice: null, totalResults: 5 }] }],
+		])('rejects the invalid cursor %j', (value) => {
+			const cursor = typeof value === 'object' ? { queryHash, ...value } : value;
+
+			expect(() => parseCursor(cursor, queryHash)).toThrow(BazosScraperError);
+		});
+	});
+});
@@ -0,0 +1,88 @@
+import { assertTimeZone, isPublishedWithin, parseBazosDate } from '../nodes/BazosScraper/dates';
+import { BazosScraperError } from '../nodes/BazosScraper/errors';
+
+const now = new Date('2025-10-28T10:00:00Z');
+const parseDate = (text: string, country = 'sk', timeZone = 'Europe/Bratislava', at = now) => parseBazosDate(text, country, timeZone, at);
+const isWithin = (text: string, days: number, country = 'sk') => isPublishedWithin(parseDate(text, country), days, 'Europe/Bratislava', now);
+
+describe('date parsing', () => {
+	it.each([
+		[' - [27.10. 2025]', '2025-10-27'],
+		['27.10.2025', '2025-10-27'],
+		['1.2. 2024', '2024-02-01'],
+		['- TOP - [1.11. 2025]', '2025-11-01'],
+	])('parses the full date "%s"', (text, expected) => {
+		expect(parseDate(text)).toEqual({ addedDate: expected, addedAt: null });
+	});
+
+	it.each([
+		['31.02. 2025'],
+		['27.13. 2025'],
+		['27.10. 1999'],
+		['27.10. 2031'],
+	])('rejects the invalid date "%s"', (text) => {
+		expect(parseDate(text)).toBeNull();
+	});
+
+	it('parses "dnes" as today', () => {
+		expect(parseDate('dnes')).toEqual({ addedDate: '2025-10-28', addedAt: null });
+	});
+
+	it('parses "včera" as yesterday', () => {
+		expect(parseDate('včera')?.addedDate).toBe('2025-10-27');
+	});
+
+	it('parses "pred X hodinami" with the exact time', () => {
+		expect(parseDate('pred 3 hodinami')).toEqual({ addedDate: '2025-10-28', addedAt: '2025-10-28T07:00:00.000Z' });
+	});
+
+	it('dates relative texts by the calendar of the time zone, not the server', () => {
+		// 23:30 UTC is already the next day in Bratislava
+		const lateEvening = new Date('2025-10-28T23:30:00Z');
+
+		expect(parseDate('dnes', 'sk', 'Europe/Bratislava', lateEvening)?.addedDate).toBe('2025-10-29');
+		expect(parseDate('dnes', 'sk', 'UTC', lateEvening)?.addedDate).toBe('2025-10-28');
+		expect(parseDate('pred 1 hodinami', 'sk', 'Europe/Bratislava', new Date('2025-10-29T00:30:00Z'))).toEqual({ addedDate: '2025-10-29', addedAt: '2025-10-28T23:30:00.000Z' });
+	});
+
+	it('parses the Slovak "pred X dňami"', () => {
+		expect(parseDate('pred 4 dňami')?.addedDate).toBe('2025-10-24');
+	});
+
+	it('parses the Czech "před X dny"', () => {
+		expect(parseDate('před 5 dny', 'cz')?.addedDate).toBe('2025-10-23');
+	});
+
+	it.each([
+		['wczoraj', 'pl', '2025-10-27'],
+		['3 dni temu', 'pl', '2025-10-25'],
+		['heute', 'at', '2025-10-28'],
+		['vor 2 Tagen', 'at', '2025-10-26'],
+	])('parses "%s" with the words of bazos.%s', (text, country, expected) => {
+		expect(parseDate(text, country)?.addedDate).toBe(expected);
+	});
+
+	it('parses "vor X Stunden" on bazos.at', () => {
+		expect(parseDate('vor 5 Stunden', 'at')?.addedAt).toBe('2025-10-28T05:00:00.000Z');
+	});
+
+	it('returns null for unknown formats', () => {
+		expect(parseDate('TOP')).toBeNull();
+	});
+
+	it('rejects unknown time zones', () => {
+		expect(() => assertTimeZone('Europe/Nowhere')).toThrow(BazosScraperError);
+		expect(() => assertTimeZone('Europe/Prague')).not.toThrow();
+	});
+
+	describe('isPublishedWithin', () => {
+		it('includes the whole cutoff day', () => {
+			expect(isWithin('[26.10. 2025]', 2)).toBe(true);
+			expect(isWithin('[25.10. 2025]', 2)).toBe(false);
+		});
+
+		it('keeps listings whose date cannot be parsed', () => {
+			expect(isWithin('unknown', 1)).toBe(true);
+		});
+	});
+});
@@ -0,0 +1,99 @@
+import { descriptionSimilarity, getFingerprint, keepOnePerGroup, markDuplicates } from '../nodes/BazosScraper/duplicates';
+import { BazosListing } from '../nodes/BazosScraper/listing';
+import { createListing } from './helpers';
+
+const listing = (id: number, overrides: Partial<BazosListing> = {}) => createListing({
+	id,
+	title: 'Horský bicykel 29"',
+	description: 'Predám horský bicykel, rám L, nové brzdy, málo jazdený. Osobný odber Trnava.',
+	price: 350,
+	currency: 'EUR',
+	priceType: 'fixed',
+	postCode: '917 01',
+	...overrides,
+});
+
+describe('duplicates', () => {
+	it('gives reposts with a reformatted title the same fingerprint', () => {
+		expect(getFingerprint(listing(1))).toBe(getFingerprint(listing(2, { title: 'HORSKÝ BICYKEL 29', postCode: '91701' })));
+		expect(getFingerprint(listing(1))).not.toBe(getFingerprint(listing(2, { price: 300 })));
+	});
+
+	it('measures description similarity by common words', () => {
+		expect(descriptionSimilarity('Predám bicykel, nové brzdy...', 'predam bicykel nove brzdy')).toBe(1);
+		expect(descriptionSimilarity('Predám bicykel', 'Kúpim auto')).toBe(0);
+		expect(descriptionSimilarity('', '')).toBe(0);
+	});
+
+	it('groups a repost with the original and names the group after the oldest listing', () => {
+		const listings = [listing(300), listing(200, { description: 'Iný text úplne o inom bicykli' }), listing(100)];
+
+		markDuplicates(listings);
+
+		expect(listings.map(({ id, groupId, duplicateOf }) => ({ id, groupId, duplicateOf }))).toEqual([
+			{ id: 300, groupId: 100, duplicateOf: 100 },
+			{ id: 200, groupId: 200, duplicateOf: null },
+			{ id: 100, groupId: 100, duplicateOf: null },
+		]);
+	});
+
+	it('matches a rewritten description by the seller phone', () => {
+		const listings = [listing(2, { description: 'Nový text', phone: '+421901234567' }), listing(1, { phone: '0901 234 567' })];
+
+		markDuplicates(listings);
+
+		expect(listings[0].duplicateOf).toBe(1);
+	});
+
+	it('does not group listings of sellers with different phones', () => {
+		const listings = [listing(2, { phone: '+421901234567' }), listing(1, { phone: '+421902000000' })];
+
+		markDuplicates(listings);
+
+		expect(listings.map((listing) => listing.duplicateOf)).toEqual([null, null]);
+	});
+
+	it('does not join sellers with different phones through a listing without a phone', () => {
+		const listings = [listing(3, { phone: '+421901111111' }), listing(2), listing(1, { phone: '+421902222222' })];
+
+		markDuplicates(listings);
+
+		expect(listings.map(({ id, groupId }) => ({ id, groupId }))).toEqual([
+			{ id: 3, groupId: 2 },
+			{ id: 2, groupId: 2 },
+			{ id: 1, groupId: 1 },
+		]);
+		expect(keepOnePerGroup(listings).map(({ id, duplicateIds }) => ({ id, duplicateIds }))).toEqual([
+			{ id: 3, duplicateIds: [2] },
+			{ id: 1, duplicateIds: [] },
+		]);
+	});
+
+	it('does not group listings only because both have no description', () => {
+		const listings = [listing(2, { description: '' }), listing(1, { description: '' })];
+
+		markDuplicates(listings);
+
+		expect(listings.map((listing) => listing.duplicateOf)).toEqual([null, null]);
+	});
+
+	it('matches the same cover image even with a different title and price', () => {
+		const listings = [listing(2, { title: 'Bicykel', price: 300, coverImageHash: 'abc' }), listing(1, { coverImageHash: 'abc' })];
+
+		markDuplicates(listings);
+
+		expect(listings[0].duplicateOf).toBe(1);
+	});
+
+	it('keeps the newest listing of each group with the IDs of the others', () => {
+		const listings = [listing(300), listing(200, { title: 'Kolobežka' }), listing(100)];
+		markDuplicates(listings);
+
+		const kept = keepOnePerGroup(listings);
+
+		expect(kept.map(({ id, duplicateOf, duplicateIds }) => ({ id, duplicateOf, duplicateIds }))).toEqual([
+			{ id: 300, duplicateOf: null, duplicateIds: [100] },
+			{ id: 200, duplicateOf: null, duplicateIds: [] },
+		]);
+	});
+});
@@ -0,0 +1,38 @@
+import { BazosScraperError } from '../nodes/BazosScraper/errors';
+import { buildListingFilters, getSellerFilterReason, getTextFilterReason } from '../nodes/BazosScraper/filters';
+
+const listing = { title: 'iPhone 13 128 GB', description: 'Predám iPhone, k tomu kábel a obal.', name: 'Peter', phone: '0901 234 567' };
+
+describe('listing filters', () => {
+	it('returns no filters when nothing is set', () => {
+		expect(buildListingFilters({})).toBeUndefined();
+		expect(buildListingFilters({ excludeWords: ' , ', titleOnly: true })).toBeUndefined();
+	});
+
+	it('ignores case and diacritics in words', () => {
+		expect(getTextFilterReason(listing, buildListingFilters({ excludeWords: 'KABEL' })!)).toBe('excludeWords');
+		expect(getTextFilterReason(listing, buildListingFilters({ requiredWords: 'iphone, predam' })!)).toBeNull();
+		expect(getTextFilterReason(listing, buildListingFilters({ requiredWords: 'iphone, 256' })!)).toBe('requiredWords');
+	});
+
+	it('matches the title only when asked to', () => {
+		expect(getTextFilterReason(listing, buildListingFilters({ excludeWords: 'obal', titleOnly: true })!)).toBeNull();
+		expect(getTextFilterReason(listing, buildListingFilters({ regex: 'kábel', titleOnly: true })!)).toBe('regex');
+	});
+
+	it('applies a case-insensitive regular expression', () => {
+		expect(getTextFilterReason(listing, buildListingFilters({ regex: 'iphone\\s*1[3-5]' })!)).toBeNull();
+		expect(getTextFilterReason(listing, buildListingFilters({ regex: 'iphone\\s*1[4-5]' })!)).toBe('regex');
+	});
+
+	it('rejects an invalid regular expression', () => {
+		expect(() => buildListingFilters({ regex: 'iphone(' })).toThrow(BazosScraperError);
+	});
+
+	it('matches blacklisted sellers by name or phone number', () => {
+		expect(getSellerFilterReason(listing, buildListingFilters({ sellerBlacklist: 'peter' })!)).toBe('sellerBlacklist');
+		expect(getSellerFilterReason(listing, buildListingFilters({ sellerBlacklist: 'Jana\n+421 901 234 567' })!)).toBe('sellerBlacklist');
+		expect(getSellerFilterReason(listing, buildListingFilters({ sellerBlacklist: 'Petra, 0902 000 000' })!)).toBeNull();
+		expect(getSellerFilterReason({ name: '', phone: '' }, buildListingFilters({ sellerBlacklist: 'Peter' })!)).toBeNull();
+	});
+});
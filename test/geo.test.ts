@@ -0,0 +1,54 @@
+import { addDistances, distanceKm, lookupPostCode, sortByDistance } from '../nodes/BazosScraper/geo';
+import { createListing } from './helpers';
+
+describe('geo', () => {
+	it('looks up SK and CZ post codes in any spacing', () => {
+		expect(lookupPostCode('811 01', 'sk')).toEqual({ lat: 48.144, lon: 17.108, district: 'Bratislava I', region: 'Bratislavský kraj' });
+		expect(lookupPostCode('60200', 'cz')).toMatchObject({ district: 'Brno-město', region: 'Jihomoravský kraj' });
+	});
+
+	it('reads the same digits as a different place on each domain', () => {
+		expect(lookupPostCode('110 00', 'cz')?.district).toBe('Praha 1');
+		expect(lookupPostCode('110 00', 'sk')).toBeNull();
+	});
+
+	it('falls back to the nearest area with the same first two digits', () => {
+		expect(lookupPostCode('912 50', 'sk')?.district).toBe('Trenčín');
+		expect(lookupPostCode('816 00', 'sk')?.district).toBe('Bratislava I');
+	});
+
+	it('returns null for invalid post codes and countries without data', () => {
+		expect(lookupPostCode('8110', 'sk')).toBeNull();
+		expect(lookupPostCode('00-950', 'pl')).toBeNull();
+	});
+
+	it('measures the great-circle distance', () => {
+		const bratislava = lookupPostCode('811 01', 'sk')!;
+		const kosice = lookupPostCode('040 01', 'sk')!;
+
+		expect(distanceKm(bratislava, bratislava)).toBe(0);
+		expect(distanceKm(bratislava, kosice)).toBeCloseTo(313, -1);
+	});
+
+	it('sorts listings nearest first with unknown distances last', () => {
+		const listings = [
+			createListing({ id: 1, lat: 48.716, lon: 21.261 }),
+			createListing({ id: 2 }),
+			createListing({ id: 3, lat: 48.377, lon: 17.588 }),
+		];
+
+		addDistances(listings, '811 01', 'sk');
+		sortByDistance(listings);
+
+		expect(listings.map((listing) => listing.id)).toEqual([3, 1, 2]);
+		expect(listings[2]).toMatchObject({ distanceKm: null });
+	});
+
+	it('leaves the distance empty without an origin', () => {
+		const listings = [createListing({ lat: 48.377, lon: 17.588 })];
+
+		addDistances(listings, '', 'sk');
+
+		expect(listings[0]).toMatchObject({ distanceKm: null });
+	});
+});
@@ -0,0 +1,63 @@
+import axios from 'axios';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { BazosListing } from '../nodes/BazosScraper/listing';
+
+export function loadFixture(name: string): string {
+	return readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+}
+
+// A parsed listing with neutral values, for tests of the stages that run after parsing
+export function createListing(overrides: Partial<BazosListing> = {}): BazosListing {
+	const id = overrides.id ?? 1;
+	return {
+		id,
+		title: `Listing ${id}`,
+		link: `https://www.bazos.sk/inzerat/${id}/`,
+		imgLink: `https://www.bazos.sk/img/1/${id}.jpg`,
+		imageOrder: 1,
+		images: [`https://www.bazos.sk/img/1/${id}.jpg`],
+		added: '2025-10-27',
+		addedDate: '2025-10-27',
+		addedAt: null,
+		isTop: false,
+		description: '',
+		price: null,
+		currency: null,
+		priceType: 'inText',
+		location: '',
+		postCode: '',
+		lat: null,
+		lon: null,
+		district: null,
+		region: null,
+		views: 10,
+		...overrides,
+	};
+}
+
+/**
+ * Replaces axios.get with a router over saved fixtures. Each route is matched against the
+ * requested URL in order; a route value of a number answers with that HTTP status instead.
+ */
+export function mockHttp(routes: Array<[RegExp, string | number]>) {
+	const requestedUrls: string[] = [];
+
+	const spy = jest.spyOn(axios, 'get').mockImplementation(async (url: string) => {
+		requestedUrls.push(url);
+		const route = routes.find(([pattern]) => pattern.test(url));
+		if (!route) {
+			throw new Error(`No fixture for ${url}`);
+		}
+		const [, response] = route;
+		if (typeof response === 'number') {
+			const error = new axios.AxiosError(`Request failed with status code ${response}`, 'ERR_BAD_RESPONSE');
+			error.response = { status: response, statusText: '', headers: {}, config: {} as any, data: '' };
+			throw error;
+		}
+		return { status: 200, statusText: 'OK', headers: {}, config: {}, data: loadFixture(response) };
+	});
+
+	return { spy, requestedUrls };
+}
@@ -0,0 +1,100 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { getStaticDataHistory, loadHistoryFile, returnedAllResults, saveHistoryFile, trackPriceHistory } from '../nodes/BazosScraper/history';
+import { createListing } from './helpers';
+
+const listing = (id: number, price: number | null) => createListing({ id, price, currency: price === null ? null : 'EUR', priceType: price === null ? 'inText' : 'fixed' });
+
+const firstRun = new Date('2025-10-27T10:00:00Z');
+const secondRun = new Date('2025-10-28T10:00:00Z');
+
+describe('price history', () => {
+	it('adds the change fields to listings seen for the first time', () => {
+		const history = getStaticDataHistory({});
+		const listings = [listing(1, 450)];
+
+		trackPriceHistory(history, 'search', listings, true, firstRun);
+
+		expect(listings[0]).toMatchObject({
+			priceChanged: false,
+			previousPrice: null,
+			priceHistory: [{ price: 450, currency: 'EUR', date: '2025-10-27T10:00:00.000Z' }],
+			firstSeen: '2025-10-27T10:00:00.000Z',
+			lastSeen: '2025-10-27T10:00:00.000Z',
+		});
+	});
+
+	it('detects a price drop on a later run', () => {
+		const history = getStaticDataHistory({});
+		trackPriceHistory(history, 'search', [listing(1, 450), listing(2, 100)], true, firstRun);
+
+		const listings = [listing(1, 400), listing(2, 100)];
+		trackPriceHistory(history, 'search', listings, true, secondRun);
+
+		expect(listings[0]).toMatchObject({ priceChanged: true, previousPrice: 450, firstSeen: '2025-10-27T10:00:00.000Z', lastSeen: '2025-10-28T10:00:00.000Z' });
+		expect(listings[0].priceHistory?.map((point) => point.price)).toEqual([450, 400]);
+		expect(listings[1]).toMatchObject({ priceChanged: false, previousPrice: 100 });
+		expect(listings[1].priceHistory).toHaveLength(1);
+	});
+
+	it('reports listings missing from the same search as disappeared', () => {
+		const history = getStaticDataHistory({});
+		trackPriceHistory(history, 'search', [listing(1, 450), listing(2, 100)], true, firstRun);
+		trackPriceHistory(history, 'other search', [listing(3, 50)], true, firstRun);
+
+		const disappeared = trackPriceHistory(history, 'search', [listing(1, 450)], true, secondRun);
+
+		expect(disappeared.map((entry) => entry.id)).toEqual([2]);
+		expect(disappeared[0]).toMatchObject({ lastSeen: '2025-10-27T10:00:00.000Z', price: 100 });
+		expect(trackPriceHistory(history, 'search', [listing(1, 450)], true, secondRun)).toEqual([]);
+	});
+
+	it('does not report disappeared listings after an incomplete run', () => {
+		const history = getStaticDataHistory({});
+		trackPriceHistory(history, 'search', [listing(1, 450), listing(2, 100)], true, firstRun);
+
+		expect(trackPriceHistory(history, 'search', [listing(1, 450)], false, secondRun)).toEqual([]);
+		expect(trackPriceHistory(history, 'search', [listing(1, 450)], true, secondRun).map((entry) => entry.id)).toEqual([2]);
+	});
+
+	it('does not report listings pushed out of the results limit as disappeared', () => {
+		const history = getStaticDataHistory({});
+		trackPriceHistory(history, 'search', [listing(1, 450), listing(2, 100)], returnedAllResults(2, 2, null), firstRun);
+
+		// A new listing 3 moved listing 2 past a limit of 2, it is still active
+		const disappeared = trackPriceHistory(history, 'search', [listing(3, 50), listing(1, 450)], returnedAllResults(3, 2, null), secondRun);
+
+		expect(disappeared).toEqual([]);
+	});
+
+	it('only treats a run without a limit or date cut-off as covering all results', () => {
+		expect(returnedAllResults(2, 2, null)).toBe(true);
+		expect(returnedAllResults(3, 2, null)).toBe(false);
+		expect(returnedAllResults(2, 2, 7)).toBe(false);
+	});
+
+	it('keeps the history in the static data object', () => {
+		const staticData = {};
+		trackPriceHistory(getStaticDataHistory(staticData), 'search', [listing(1, 450)], true, firstRun);
+
+		expect(getStaticDataHistory(staticData).listings['1']).toMatchObject({ price: 450, title: 'Listing 1' });
+	});
+
+	it('saves and loads the history file', async () => {
+		const directory = await fs.mkdtemp(join(tmpdir(), 'bazos-history-'));
+		const path = join(directory, 'nested', 'history.json');
+		try {
+			const history = await loadHistoryFile(path);
+			expect(history).toEqual({ listings: {}, searches: {} });
+
+			trackPriceHistory(history, 'search', [listing(1, 450)], true, firstRun);
+			await saveHistoryFile(path, history);
+
+			expect(await loadHistoryFile(path)).toEqual(history);
+		} finally {
+			await fs.rm(directory, { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,29 @@
+import { pickListingFields } from '../nodes/BazosScraper/listing';
+import { createListing } from './helpers';
+
+describe('fields to return', () => {
+	it('returns the whole listing without field sets', () => {
+		const listing = createListing();
+
+		expect(pickListingFields(listing, [])).toBe(listing);
+	});
+
+	it('returns only the fields of the chosen sets, leaving out the ones a listing does not have', () => {
+		const listing = createListing({ id: 7, price: 450, currency: 'EUR', priceType: 'fixed', name: 'Peter', phone: '+421901234567' });
+
+		expect(pickListingFields(listing, ['id', 'price', 'contact'])).toEqual({
+			id: 7,
+			price: 450,
+			currency: 'EUR',
+			priceType: 'fixed',
+			name: 'Peter',
+			phone: '+421901234567',
+		});
+	});
+
+	it('always keeps detail errors and binary property names', () => {
+		const listing = createListing({ detailError: 'Request failed', binaryProperties: ['image_0_0'] });
+
+		expect(pickListingFields(listing, ['title'])).toEqual({ title: 'Listing 1', detailError: 'Request failed', binaryProperties: ['image_0_0'] });
+	});
+});
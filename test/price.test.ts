@@ -0,0 +1,60 @@
+import { buildExchangeRates, convertPrice, parsePrice } from '../nodes/BazosScraper/price';
+
+describe('price parsing', () => {
+	it.each([
+		['450 €', 'sk', { price: 450, currency: 'EUR', priceType: 'fixed' }],
+		['1 299 €', 'sk', { price: 1299, currency: 'EUR', priceType: 'fixed' }],
+		['1 299,90 €', 'sk', { price: 1299.9, currency: 'EUR', priceType: 'fixed' }],
+		['12.500 Kč', 'cz', { price: 12500, currency: 'CZK', priceType: 'fixed' }],
+		['12 500 Kč', 'sk', { price: 12500, currency: 'CZK', priceType: 'fixed' }],
+		['99.50', 'sk', { price: 99.5, currency: 'EUR', priceType: 'fixed' }],
+		['1 000 - 1 500 €', 'sk', { price: 1000, currency: 'EUR', priceType: 'fixed' }],
+		['800', 'cz', { price: 800, currency: 'CZK', priceType: 'fixed' }],
+		['1 200 zł', 'pl', { price: 1200, currency: 'PLN', priceType: 'fixed' }],
+		['350', 'at', { price: 350, currency: 'EUR', priceType: 'fixed' }],
+	])('parses %p on bazos.%s', (text, country, expected) => {
+		expect(parsePrice(text, country)).toEqual(expected);
+	});
+
+	it.each([
+		['Zadarmo', 'sk', { price: 0, currency: 'EUR', priceType: 'free' }],
+		['Zdarma', 'cz', { price: 0, currency: 'CZK', priceType: 'free' }],
+		['Dohodou', 'sk', { price: null, currency: null, priceType: 'negotiable' }],
+		['V texte', 'sk', { price: null, currency: null, priceType: 'inText' }],
+		['V textu', 'cz', { price: null, currency: null, priceType: 'inText' }],
+		['Ponúknite', 'sk', { price: null, currency: null, priceType: 'offer' }],
+		['Nabídněte', 'cz', { price: null, currency: null, priceType: 'offer' }],
+		['', 'sk', { price: null, currency: null, priceType: 'inText' }],
+		['Za darmo', 'pl', { price: 0, currency: 'PLN', priceType: 'free' }],
+		['Do negocjacji', 'pl', { price: null, currency: null, priceType: 'negotiable' }],
+		['Zu verschenken', 'at', { price: 0, currency: 'EUR', priceType: 'free' }],
+		['VB', 'at', { price: null, currency: null, priceType: 'negotiable' }],
+		['150 € VB', 'at', { price: 150, currency: 'EUR', priceType: 'negotiable' }],
+		['Dohodou, 500 €', 'sk', { price: 500, currency: 'EUR', priceType: 'negotiable' }],
+	])('classifies %p as a price type', (text, country, expected) => {
+		expect(parsePrice(text, country)).toEqual(expected);
+	});
+});
+
+describe('price conversion', () => {
+	const rates = { CZK: 0.04 };
+
+	it('converts with the given rate and rounds to cents', () => {
+		expect(convertPrice(12500, 'CZK', 'EUR', rates)).toBe(500);
+		expect(convertPrice(333, 'CZK', 'EUR', rates)).toBe(13.32);
+	});
+
+	it('keeps prices already in the target currency', () => {
+		expect(convertPrice(450, 'EUR', 'EUR', rates)).toBe(450);
+	});
+
+	it('returns null without a price or a rate', () => {
+		expect(convertPrice(null, null, 'EUR', rates)).toBeNull();
+		expect(convertPrice(450, 'EUR', 'CZK', rates)).toBeNull();
+	});
+
+	it('builds the rate map from the node parameter', () => {
+		expect(buildExchangeRates({ rate: [{ currency: ' czk ', rate: 0.04 }, { currency: '', rate: 1 }, { currency: 'PLN', rate: 0 }] })).toEqual({ CZK: 0.04 });
+		expect(buildExchangeRates({})).toEqual({});
+	});
+});